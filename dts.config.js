@@ -0,0 +1,21 @@
+const path = require('path');
+
+/**
+ * `dts build` names outputs after the package regardless of the entry, so that outputs of the `ts-souko/react` entry
+ * (src/react.ts) would overwrite ones of the main entry. Renames them to `dist/react.*.js`.
+ *
+ * @type {import('dts-cli').DtsConfig}
+ */
+module.exports = {
+  rollup(config, options) {
+    if (path.basename(options.input) !== 'react.ts') {
+      return config;
+    }
+    const { format, env, minify } = options;
+    config.output.file =
+      format === 'esm'
+        ? path.join('dist', 'react.esm.js')
+        : path.join('dist', `react.${format}.${env}${minify ? '.min' : ''}.js`);
+    return config;
+  },
+};
@@ -56,7 +56,322 @@ export interface AsyncBaseStorage {
   remove(key: string): Promise<void>;
 }
 
-const createInMemoryStorage = (): BaseStorage => {
+/**
+ * Change of a key-value pair in {@linkcode BaseStorage} or {@linkcode AsyncBaseStorage}.
+ */
+export interface BaseStorageChange {
+  /**
+   * Key whose value has changed. `null` if the whole storage has been cleared.
+   */
+  key: string | null;
+
+  /**
+   * Value before the change. `null` if the key was newly added.
+   */
+  oldValue: string | null;
+
+  /**
+   * Value after the change. `null` if the key has been removed.
+   */
+  newValue: string | null;
+}
+
+/**
+ * Listener of changes in {@linkcode BaseStorage} or {@linkcode AsyncBaseStorage}.
+ */
+export type BaseStorageChangeListener = (change: BaseStorageChange) => void;
+
+/**
+ * {@linkcode BaseStorage} that can notify changes made from the outside of the storage (e.g. from other browser tabs).
+ */
+export interface SubscribableBaseStorage extends BaseStorage {
+  /**
+   * Registers the `listener` that is called every time a key-value pair is changed from the outside.
+   *
+   * Returns a function to unregister the `listener`.
+   *
+   * @param listener listener of changes
+   */
+  subscribe(listener: BaseStorageChangeListener): () => void;
+}
+
+/**
+ * {@linkcode AsyncBaseStorage} that can notify changes made from the outside of the storage (e.g. from other processes).
+ */
+export interface AsyncSubscribableBaseStorage extends AsyncBaseStorage {
+  /**
+   * Registers the `listener` that is called every time a key-value pair is changed from the outside.
+   *
+   * Returns a function to unregister the `listener`.
+   *
+   * @param listener listener of changes
+   */
+  subscribe(listener: BaseStorageChangeListener): () => void;
+}
+
+/**
+ * Checks if the `base` storage can notify changes.
+ */
+export const isSubscribable = <S extends BaseStorage | AsyncBaseStorage>(
+  base: S
+): base is S & { subscribe(listener: BaseStorageChangeListener): () => void } => {
+  return typeof (base as { subscribe?: unknown }).subscribe === 'function';
+};
+
+/**
+ * {@linkcode BaseStorage} that can enumerate stored keys.
+ */
+export interface EnumerableBaseStorage extends BaseStorage {
+  /**
+   * Returns all keys stored in the storage.
+   */
+  keys(): string[];
+}
+
+/**
+ * {@linkcode AsyncBaseStorage} that can enumerate stored keys.
+ */
+export interface AsyncEnumerableBaseStorage extends AsyncBaseStorage {
+  /**
+   * Returns all keys stored in the storage asynchronously.
+   */
+  keys(): Promise<string[]>;
+}
+
+/**
+ * Checks if the `base` storage can enumerate stored keys.
+ */
+export function isEnumerable(base: BaseStorage): base is EnumerableBaseStorage;
+export function isEnumerable(base: AsyncBaseStorage): base is AsyncEnumerableBaseStorage;
+export function isEnumerable(base: BaseStorage | AsyncBaseStorage): boolean {
+  return typeof (base as { keys?: unknown }).keys === 'function';
+}
+
+/**
+ * Converts the sync {@linkcode BaseStorage} into {@linkcode AsyncBaseStorage}, so that one `Spec` can be used across sync and async storages.
+ * Key enumeration and change notification are preserved if the `base` storage supports them.
+ *
+ * @example
+ * ```
+ * const storage = createAsyncTypedStorage(spec, { base: toAsyncBaseStorage(baseStorages.webLocal) });
+ * ```
+ *
+ * @param base sync storage to convert.
+ */
+export function toAsyncBaseStorage(
+  base: SubscribableBaseStorage & EnumerableBaseStorage
+): AsyncSubscribableBaseStorage & AsyncEnumerableBaseStorage;
+export function toAsyncBaseStorage(base: EnumerableBaseStorage): AsyncEnumerableBaseStorage;
+export function toAsyncBaseStorage(base: SubscribableBaseStorage): AsyncSubscribableBaseStorage;
+export function toAsyncBaseStorage(base: BaseStorage): AsyncBaseStorage;
+export function toAsyncBaseStorage(base: BaseStorage): AsyncBaseStorage {
+  const storage: AsyncBaseStorage & {
+    keys?: () => Promise<string[]>;
+    subscribe?: (listener: BaseStorageChangeListener) => () => void;
+  } = {
+    get: async (key: string) => base.get(key),
+    set: async (key: string, value: string) => base.set(key, value),
+    remove: async (key: string) => base.remove(key),
+  };
+  if (isEnumerable(base)) {
+    storage.keys = async () => base.keys();
+  }
+  if (isSubscribable(base)) {
+    storage.subscribe = (listener: BaseStorageChangeListener) => base.subscribe(listener);
+  }
+  return Object.freeze(storage);
+}
+
+/**
+ * Sync {@linkcode BaseStorage} that caches values of an {@linkcode AsyncBaseStorage} in memory, created by {@linkcode createCachedStorage}.
+ */
+export interface CachedBaseStorage extends EnumerableBaseStorage {
+  /**
+   * Loads values from the underlying storage into the cache. Must be called (and awaited) before reading values.
+   *
+   * Loads all keys if `keys` is omitted, which requires the underlying storage to be able to enumerate keys.
+   * If `keys` is specified, only values for the keys (and keys written so far) become readable: reading other keys or enumerating keys
+   * throws until all keys are hydrated.
+   * Can be called again to reload values. Writes that are not flushed yet take precedence over reloaded values.
+   *
+   * @param keys keys to load.
+   */
+  hydrate(keys?: string[]): Promise<void>;
+
+  /**
+   * Returns whether the value for the `key` is readable from the cache, i.e. hydrated or written.
+   * If `key` is omitted, returns whether all keys have been hydrated.
+   */
+  isHydrated(key?: string): boolean;
+
+  /**
+   * Waits until all writes made so far are persisted to the underlying storage.
+   *
+   * Rejects with the first error occurred in writing to the underlying storage since the last call of `flush`, if any.
+   */
+  flush(): Promise<void>;
+}
+
+/**
+ * Creates a sync {@linkcode BaseStorage} that caches values of the async `base` storage (e.g. IndexedDB) in memory.
+ * It lets UI code read values synchronously via `createTypedStorage`, while persistence stays async.
+ *
+ * Values are loaded by `hydrate()`, which must be awaited before reading values.
+ * Writes are reflected to the cache immediately, and persisted to the `base` storage in the background. `flush()` waits for them.
+ *
+ * @example
+ * ```
+ * const base = createCachedStorage(createIndexedDBStorage());
+ * await base.hydrate();
+ *
+ * const storage = createTypedStorage({ theme: codecs.string }, { base });
+ * storage.set('theme', 'dark');  // readable synchronously right away
+ * await base.flush();            // persisted to IndexedDB
+ * ```
+ *
+ * @param base async storage to cache.
+ */
+export const createCachedStorage = (base: AsyncBaseStorage): CachedBaseStorage => {
+  let cache = new Map<string, string>();
+  // whether all keys are hydrated, and keys whose values are known by partial hydrations or writes
+  let hydratedAll = false;
+  const knownKeys = new Set<string>();
+
+  // writes not persisted yet (`null` means removal). they are persisted in batches, in the background.
+  let pending = new Map<string, string | null>();
+  // batch of writes being persisted.
+  let inFlight = new Map<string, string | null>();
+  let batchScheduled = false;
+  let writing: Promise<void> = Promise.resolve();
+  let writeErrors: unknown[] = [];
+  // writes that ongoing hydrations have to apply over values loaded from the base storage.
+  const overlays = new Set<Map<string, string | null>>();
+
+  const writeBatch = async () => {
+    batchScheduled = false;
+    const batch = pending;
+    inFlight = batch;
+    pending = new Map();
+    for (const [key, value] of batch) {
+      try {
+        if (value === null) {
+          await base.remove(key);
+        } else {
+          await base.set(key, value);
+        }
+      } catch (e) {
+        writeErrors.push(e);
+      }
+    }
+    inFlight = new Map();
+  };
+  const enqueueWrite = (key: string, value: string | null) => {
+    pending.set(key, value);
+    overlays.forEach(o => o.set(key, value));
+    if (!batchScheduled) {
+      batchScheduled = true;
+      writing = writing.then(writeBatch);
+    }
+  };
+
+  const isHydrated = (key?: string) => hydratedAll || (key !== undefined && knownKeys.has(key));
+  const assertHydrated = (key?: string) => {
+    if (!isHydrated(key)) {
+      const target = key !== undefined ? `value for key '${key}' is` : 'all keys are';
+      throw Error(`${target} not hydrated yet. call and await hydrate() first`);
+    }
+  };
+
+  return Object.freeze({
+    get(key: string) {
+      assertHydrated(key);
+      return cache.get(key) ?? null;
+    },
+    set(key: string, value: string) {
+      cache.set(key, value);
+      knownKeys.add(key);
+      enqueueWrite(key, value);
+    },
+    remove(key: string) {
+      cache.delete(key);
+      knownKeys.add(key);
+      enqueueWrite(key, null);
+    },
+    keys() {
+      assertHydrated();
+      return Array.from(cache.keys());
+    },
+    async hydrate(keys?: string[]) {
+      if (keys === undefined && !isEnumerable(base)) {
+        throw Error('the base storage cannot enumerate keys. specify keys to hydrate');
+      }
+      // writes not persisted yet at this point, and writes made during the hydration take precedence over loaded values,
+      // since loaded values may not reflect them
+      const overlay = new Map([...inFlight, ...pending]);
+      overlays.add(overlay);
+      let loaded: Map<string, string | null>;
+      const fullReload = keys === undefined;
+      try {
+        const keysToLoad = keys ?? (isEnumerable(base) ? await base.keys() : []);
+        const values = await Promise.all(keysToLoad.map(k => base.get(k)));
+        loaded = new Map(keysToLoad.map((k, i) => [k, values[i]]));
+      } finally {
+        overlays.delete(overlay);
+      }
+
+      // builds a new cache and swaps it in synchronously, so that reads never see a partially loaded cache
+      const next = fullReload ? new Map<string, string>() : new Map(cache);
+      for (const [k, v] of [...loaded, ...overlay]) {
+        if (v === null) {
+          next.delete(k);
+        } else {
+          next.set(k, v);
+        }
+      }
+      cache = next;
+      if (fullReload) {
+        hydratedAll = true;
+      } else {
+        keys.forEach(k => knownKeys.add(k));
+      }
+    },
+    isHydrated,
+    async flush() {
+      await writing;
+      const [err] = writeErrors;
+      if (writeErrors.length > 0) {
+        writeErrors = [];
+        throw err;
+      }
+    },
+  });
+};
+
+// subscribes the `storage` event of Web API, which is fired when the storage is changed from other browser tabs.
+const subscribeWebStorage = (getStorageArea: () => Storage, listener: BaseStorageChangeListener) => {
+  const handler = (ev: StorageEvent) => {
+    if (ev.storageArea !== getStorageArea()) {
+      return;
+    }
+    listener({ key: ev.key, oldValue: ev.oldValue, newValue: ev.newValue });
+  };
+  window.addEventListener('storage', handler);
+  return () => window.removeEventListener('storage', handler);
+};
+
+// enumerates all keys in the storage of Web API.
+const webStorageKeys = (storage: Storage): string[] => {
+  const keys: string[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const k = storage.key(i);
+    if (k !== null) {
+      keys.push(k);
+    }
+  }
+  return keys;
+};
+
+const createInMemoryStorage = (): EnumerableBaseStorage => {
   const m = new Map<string, string>();
 
   return {
@@ -69,10 +384,13 @@ const createInMemoryStorage = (): BaseStorage => {
     remove(key: string) {
       m.delete(key);
     },
+    keys() {
+      return Array.from(m.keys());
+    },
   };
 };
 
-const createAsyncInMemoryStorage = (): AsyncBaseStorage => {
+const createAsyncInMemoryStorage = (): AsyncEnumerableBaseStorage => {
   const m = new Map<string, string>();
 
   return {
@@ -85,17 +403,353 @@ const createAsyncInMemoryStorage = (): AsyncBaseStorage => {
     async remove(key: string) {
       m.delete(key);
     },
+    async keys() {
+      return Array.from(m.keys());
+    },
   };
 };
 
+/**
+ * Options for {@linkcode createIndexedDBStorage}.
+ */
+export interface IndexedDBStorageOptions {
+  /**
+   * Name of the database. Defaults to `'ts-souko'`.
+   */
+  dbName?: string;
+
+  /**
+   * Name of the object store in which key-value pairs are stored. Created if not exists. Defaults to `'kv'`.
+   */
+  storeName?: string;
+
+  /**
+   * `IDBFactory` implementation. Defaults to `indexedDB` of the global scope.
+   *
+   * Can be used for specifying IndexedDB shim, e.g. in Node.js.
+   */
+  indexedDB?: IDBFactory;
+}
+
+// wraps the `IDBRequest` in a Promise.
+const idbRequest = <T>(req: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+// opens the database, creating the object store if not exists.
+const openIDB = async (factory: IDBFactory, dbName: string, storeName: string): Promise<IDBDatabase> => {
+  const open = (version?: number) => {
+    const req = factory.open(dbName, version);
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(storeName)) {
+        req.result.createObjectStore(storeName);
+      }
+    };
+    return idbRequest(req);
+  };
+
+  const db = await open();
+  if (db.objectStoreNames.contains(storeName)) {
+    return db;
+  }
+  // the database exists but the store doesn't: upgrade the database to create the store
+  const nextVersion = db.version + 1;
+  db.close();
+  return open(nextVersion);
+};
+
+/**
+ * Creates an {@linkcode AsyncBaseStorage} backed by an object store of IndexedDB.
+ * The connection to the database is opened on the first access, and reused.
+ *
+ * @example
+ * ```
+ * const base = createIndexedDBStorage({ dbName: 'my-app', storeName: 'settings' });
+ * const storage = createAsyncTypedStorage({ theme: codecs.string }, { base });
+ * ```
+ *
+ * @param options names of the database and the object store.
+ */
+export const createIndexedDBStorage = ({
+  dbName = 'ts-souko',
+  storeName = 'kv',
+  indexedDB: factory,
+}: IndexedDBStorageOptions = {}): AsyncEnumerableBaseStorage => {
+  // the connection is opened lazily, and reused until it is closed
+  let conn: Promise<IDBDatabase> | undefined;
+  const connect = (): Promise<IDBDatabase> => {
+    if (conn === undefined) {
+      conn = openIDB(factory ?? indexedDB, dbName, storeName).then(db => {
+        const reset = () => {
+          db.close();
+          conn = undefined;
+        };
+        // let other connections upgrade the database
+        db.onversionchange = reset;
+        db.onclose = reset;
+        return db;
+      });
+      conn.catch(() => {
+        conn = undefined;
+      });
+    }
+    return conn;
+  };
+
+  // runs `op` in a transaction, and resolves to the result of the request after the transaction completes.
+  // rejects if either the request or the transaction fails.
+  const transact = async <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await connect();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const req = op(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error ?? req.error);
+      tx.onabort = () => reject(tx.error ?? req.error ?? new Error('transaction aborted'));
+    });
+  };
+
+  return Object.freeze({
+    async get(key: string) {
+      const v = await transact('readonly', store => store.get(key));
+      return typeof v === 'string' ? v : null;
+    },
+    async set(key: string, value: string) {
+      await transact('readwrite', store => store.put(value, key));
+    },
+    async remove(key: string) {
+      await transact('readwrite', store => store.delete(key));
+    },
+    async keys() {
+      const keys = await transact('readonly', store => store.getAllKeys());
+      return keys.filter((k): k is string => typeof k === 'string');
+    },
+  });
+};
+
+/**
+ * Source of cookies that cookie storages read from and write to.
+ */
+export interface CookieSource {
+  /**
+   * Returns the current cookies in the form of `Cookie` header, i.e. `name1=value1; name2=value2`.
+   */
+  read(): string;
+
+  /**
+   * Writes a cookie in the form of `Set-Cookie` header, e.g. `name=value; Path=/; Max-Age=3600`.
+   */
+  write(setCookie: string): void;
+}
+
+/**
+ * {@linkcode CookieSource} on a raw `Cookie` header, created by {@linkcode createCookieHeaderSource}.
+ */
+export interface CookieHeaderSource extends CookieSource {
+  /**
+   * Returns cookies written so far in the form of `Set-Cookie` headers, to be sent back to the client.
+   */
+  setCookieHeaders(): string[];
+}
+
+/**
+ * Options for {@linkcode createCookieStorage}.
+ */
+export interface CookieStorageOptions {
+  /**
+   * Source of cookies. Defaults to `document.cookie`.
+   *
+   * Use {@linkcode createCookieHeaderSource} to handle cookies in the `Cookie` header on the server side.
+   */
+  source?: CookieSource;
+
+  /**
+   * `Path` attribute of cookies. Defaults to `'/'`.
+   */
+  path?: string;
+
+  /**
+   * `Domain` attribute of cookies. Defaults to none (i.e. host-only cookies).
+   */
+  domain?: string;
+
+  /**
+   * `Max-Age` attribute of cookies in seconds. Must be at least `1`, since cookies with `Max-Age` of `0` expire immediately.
+   * Defaults to none (i.e. session cookies).
+   */
+  maxAge?: number;
+
+  /**
+   * `SameSite` attribute of cookies. Defaults to none (i.e. browser default).
+   */
+  sameSite?: 'strict' | 'lax' | 'none';
+
+  /**
+   * If `true`, cookies get `Secure` attribute. Defaults to `false`.
+   */
+  secure?: boolean;
+
+  /**
+   * Maximum size of a cookie (the name and the value, after encoding) in bytes. Defaults to `4096`, the minimum limit browsers must support.
+   *
+   * Writing a larger cookie throws an error, since browsers silently drop such cookies.
+   */
+  maxSize?: number;
+}
+
+// encodes cookie names/values. `(` and `)` are not allowed in cookie names.
+const encodeCookieComponent = (s: string): string => {
+  return encodeURIComponent(s).replace(/[()]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+};
+
+// decodes cookie names/values. cookies not written by cookie storages may not be decodable: they are read as is.
+const decodeCookieComponent = (s: string): string => {
+  try {
+    return decodeURIComponent(s);
+  } catch {
+    return s;
+  }
+};
+
+// parses cookies in the form of `Cookie` header into pairs of (encoded) names and values.
+// if there are cookies of the same name (with different paths), the first one (with the most specific path) wins.
+const parseCookies = (cookies: string): Map<string, string> => {
+  const m = new Map<string, string>();
+  for (const pair of cookies.split(';')) {
+    const sep = pair.indexOf('=');
+    if (sep < 0) {
+      continue;
+    }
+    const name = pair.slice(0, sep).trim();
+    if (name !== '' && !m.has(name)) {
+      m.set(name, pair.slice(sep + 1).trim());
+    }
+  }
+  return m;
+};
+
+/**
+ * Creates a {@linkcode CookieSource} on a raw `Cookie` header string, for using cookie storages on the server side.
+ * Cookies written to the source are reflected to the subsequent reads, and collected as `Set-Cookie` headers.
+ *
+ * @example
+ * ```
+ * const source = createCookieHeaderSource(req.headers.cookie);
+ * const storage = createTypedStorage({ locale: codecs.string }, { base: createCookieStorage({ source }) });
+ *
+ * storage.set('locale', 'ja');
+ * res.setHeader('Set-Cookie', source.setCookieHeaders());
+ * ```
+ *
+ * @param cookieHeader value of the `Cookie` header of the request.
+ */
+export const createCookieHeaderSource = (cookieHeader: string | undefined): CookieHeaderSource => {
+  const jar = parseCookies(cookieHeader ?? '');
+  const setCookies: string[] = [];
+
+  return Object.freeze({
+    read: () =>
+      Array.from(jar)
+        .map(([name, value]) => `${name}=${value}`)
+        .join('; '),
+    write: (setCookie: string) => {
+      setCookies.push(setCookie);
+      const [pair = '', ...attrs] = setCookie.split(';');
+      const sep = pair.indexOf('=');
+      const name = pair.slice(0, sep).trim();
+      if (attrs.some(a => /^\s*max-age\s*=\s*(0|-\d+)\s*$/i.test(a))) {
+        jar.delete(name);
+      } else {
+        jar.set(name, pair.slice(sep + 1).trim());
+      }
+    },
+    setCookieHeaders: () => [...setCookies],
+  });
+};
+
+const documentCookieSource: CookieSource = Object.freeze({
+  read: () => document.cookie,
+  write: (setCookie: string) => {
+    document.cookie = setCookie;
+  },
+});
+
+/**
+ * Creates a {@linkcode BaseStorage} backed by cookies, so that values reach the server. Keys and values are encoded to be safe in cookies.
+ *
+ * Writing a cookie larger than `maxSize` throws an error.
+ *
+ * @example
+ * ```
+ * const base = createCookieStorage({ maxAge: 60 * 60 * 24 * 365, sameSite: 'lax', secure: true });
+ * const storage = createTypedStorage({ locale: codecs.string, consent: codecs.boolean }, { base });
+ * ```
+ *
+ * @param options source and attributes of cookies.
+ */
+export const createCookieStorage = ({
+  source = documentCookieSource,
+  path = '/',
+  domain,
+  maxAge,
+  sameSite,
+  secure = false,
+  maxSize = 4096,
+}: CookieStorageOptions = {}): EnumerableBaseStorage => {
+  if (maxAge !== undefined && !(maxAge >= 1)) {
+    throw Error(`invalid maxAge: ${maxAge} (must be at least 1 second)`);
+  }
+  const setCookie = (name: string, value: string, maxAge: number | undefined) => {
+    const attrs = [`${name}=${value}`, `Path=${path}`];
+    if (domain !== undefined) {
+      attrs.push(`Domain=${domain}`);
+    }
+    if (maxAge !== undefined) {
+      attrs.push(`Max-Age=${Math.floor(maxAge)}`);
+    }
+    if (sameSite !== undefined) {
+      attrs.push(`SameSite=${sameSite[0].toUpperCase()}${sameSite.slice(1)}`);
+    }
+    if (secure) {
+      attrs.push('Secure');
+    }
+    source.write(attrs.join('; '));
+  };
+
+  return Object.freeze({
+    get(key: string) {
+      const value = parseCookies(source.read()).get(encodeCookieComponent(key));
+      return value === undefined ? null : decodeCookieComponent(value);
+    },
+    set(key: string, value: string) {
+      const name = encodeCookieComponent(key);
+      const encValue = encodeCookieComponent(value);
+      const size = name.length + encValue.length;
+      if (size > maxSize) {
+        throw Error(`cookie '${key}' is too large: ${size} bytes after encoding (limit: ${maxSize} bytes)`);
+      }
+      setCookie(name, encValue, maxAge);
+    },
+    remove(key: string) {
+      setCookie(encodeCookieComponent(key), '', 0);
+    },
+    keys() {
+      return Array.from(parseCookies(source.read()).keys(), decodeCookieComponent);
+    },
+  });
+};
+
 type BuiltinBaseStorages = {
-  webLocal: BaseStorage;
-  webSession: BaseStorage;
-  inMemory: BaseStorage;
-  inMemoryScoped: () => BaseStorage;
+  webLocal: SubscribableBaseStorage & EnumerableBaseStorage;
+  webSession: SubscribableBaseStorage & EnumerableBaseStorage;
+  inMemory: EnumerableBaseStorage;
+  inMemoryScoped: () => EnumerableBaseStorage;
 
-  inMemoryAsync: AsyncBaseStorage;
-  inMemoryScopedAsync: () => AsyncBaseStorage;
+  inMemoryAsync: AsyncEnumerableBaseStorage;
+  inMemoryScopedAsync: () => AsyncEnumerableBaseStorage;
 };
 
 /**
@@ -105,23 +759,30 @@ type BuiltinBaseStorages = {
  * - `webLocal`: [`localStorage`](https://developer.mozilla.org/ja/docs/Web/API/Window/localStorage) in Web API
  * - `webSession`: [`sessionStorage`](https://developer.mozilla.org/ja/docs/Web/API/Window/sessionStorage) in Web API
  * - In-memory storage implementations
+ *
+ * Storages backed by [IndexedDB](https://developer.mozilla.org/docs/Web/API/IndexedDB_API) and cookies are created by
+ * {@linkcode createIndexedDBStorage} and {@linkcode createCookieStorage}, which are separated so that they can be tree-shaken.
  */
 export const baseStorages: BuiltinBaseStorages = Object.freeze({
   /**
-   * `localStorage` of Web API.
+   * `localStorage` of Web API. Notifies changes made from other browser tabs.
    */
   webLocal: Object.freeze({
     get: (k: string) => localStorage.getItem(k),
     set: (k: string, v: string) => localStorage.setItem(k, v),
     remove: (k: string) => localStorage.removeItem(k),
+    subscribe: (l: BaseStorageChangeListener) => subscribeWebStorage(() => localStorage, l),
+    keys: () => webStorageKeys(localStorage),
   }),
   /**
-   * `sessionStorage` of Web API.
+   * `sessionStorage` of Web API. Notifies changes made from other browser tabs.
    */
   webSession: Object.freeze({
     get: (k: string) => sessionStorage.getItem(k),
     set: (k: string, v: string) => sessionStorage.setItem(k, v),
     remove: (k: string) => sessionStorage.removeItem(k),
+    subscribe: (l: BaseStorageChangeListener) => subscribeWebStorage(() => sessionStorage, l),
+    keys: () => webStorageKeys(sessionStorage),
   }),
   /** In-memory storage. */
   inMemory: Object.freeze(createInMemoryStorage()),
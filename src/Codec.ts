@@ -2,8 +2,10 @@ import { fold } from 'fp-ts/Either';
 import { Errors, Type as IoTsType } from 'io-ts';
 import { Reporter } from 'io-ts/lib/Reporter';
 import { PathReporter } from 'io-ts/PathReporter';
-import { assert as assertBySS, Struct as SSStruct } from 'superstruct';
+import { Struct as SSStruct, validate as validateBySS } from 'superstruct';
 import { ZodType } from 'zod';
+import { compress, decompress } from './Compression';
+import { CodecError, CodecIssue } from './Errors';
 
 /**
  * Prescribes the way to convert a value to a string back and forth.
@@ -20,8 +22,84 @@ export interface Codec<T> {
    * Converts a string to the value of type `T` that is represented by the input.
    *
    * Should throw error when the input is not decodable as type `T`.
+   * Throwing {@linkcode CodecError} is recommended, since typed storage wrappers can report the location of issues in the input.
    */
   decode: (s: string) => T;
+
+  /**
+   * Converts a value of type `T` to the JSON value that represents it. Optional.
+   *
+   * `Codec`s for composite values (e.g. `codecs.arrayOf`) use it to embed elements as native JSON values rather than as encoded strings.
+   * If the result is a string, it must be equal to `encode(t)`, so that it is decodable by `decode`.
+   */
+  toJSONValue?: (t: T) => unknown;
+
+  /**
+   * Converts a non-string JSON value produced by `toJSONValue` back to the value of type `T`. Required if `toJSONValue` may return non-string values.
+   *
+   * Should throw error when the input is not decodable as type `T`.
+   */
+  fromJSONValue?: (v: unknown) => T;
+}
+
+/**
+ * {@linkcode Codec} that tags encoded strings with the version of the format, and migrates values in older versions on decoding.
+ *
+ * Create one by `codecs.versioned`.
+ */
+export interface VersionedCodec<T> extends Codec<T> {
+  /**
+   * Current version. Values are always encoded in this version.
+   */
+  readonly version: number;
+
+  /**
+   * Whether typed storage wrappers should write back values migrated from older versions.
+   */
+  readonly writeBack: boolean;
+
+  /**
+   * Returns the version of the encoded string `s`.
+   */
+  versionOf(s: string): number;
+
+  /**
+   * Creates a `VersionedCodec` for the next version.
+   *
+   * @param nextCodec `Codec` for values in the next version.
+   * @param migration function that converts a value in the current version to the one in the next version.
+   */
+  migrate<U>(nextCodec: Codec<U>, migration: (prev: T) => NoInfer<U>): VersionedCodec<U>;
+}
+
+// prevents type inference from the position, so that `U` of `VersionedCodec.migrate` is inferred only from `nextCodec`.
+type NoInfer<T> = [T][T extends any ? 0 : never];
+
+/**
+ * Options for `codecs.versioned`.
+ */
+export interface VersionedCodecOptions {
+  /**
+   * Version of the initial format. Encoded strings without version tag are regarded as this version. Defaults to `1`.
+   */
+  initialVersion?: number;
+
+  /**
+   * If `true`, typed storage wrappers write back values migrated from older versions in the current version. Defaults to `false`.
+   */
+  writeBack?: boolean;
+}
+
+/**
+ * Options for `codecs.compression` and `codecs.compressed`.
+ */
+export interface CompressionOptions {
+  /**
+   * Strings shorter than this length are not compressed. Defaults to `256`.
+   *
+   * Strings are stored uncompressed also if the compression doesn't reduce the size.
+   */
+  threshold?: number;
 }
 
 // auxiliary types for typing `tupleOf` Codec.
@@ -30,23 +108,131 @@ type TupleOfEachCodecTarget<T extends TupleOfCodecs> = {
   [I in keyof T]: T[I] extends Codec<infer T> ? T : never;
 };
 
+// auxiliary types for typing `objectOf` Codec.
+type RecordOfCodecs = { [field: string]: Codec<any> };
+type CodecTarget<C> = C extends Codec<infer T> ? T : never;
+type ObjectOfEachCodecTarget<Req extends RecordOfCodecs, Opt extends RecordOfCodecs> = Flatten<
+  { [K in keyof Req]: CodecTarget<Req[K]> } & { [K in keyof Opt]?: CodecTarget<Opt[K]> }
+>;
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+// types of values that can be used as literals in `literal` / `enumOf` Codec.
+type Literal = string | number | boolean | null;
+
+// auxiliary types for typing `unionOf` Codec.
+type UnionOfEachCodecTarget<Members extends RecordOfCodecs> = CodecTarget<Members[keyof Members]>;
+
 type BuiltinCodecsType = {
   string: Codec<string>;
   number: Codec<number>;
   bigint: Codec<bigint>;
   boolean: Codec<boolean>;
+  date: Codec<Date>;
+  url: Codec<URL>;
+  uint8Array: Codec<Uint8Array>;
 
   arrayOf: <T>(elemCodec: Codec<T>) => Codec<T[]>;
   tupleOf: <Codecs extends TupleOfCodecs>(elemCodecs: Codecs) => Codec<TupleOfEachCodecTarget<Codecs>>;
+  objectOf: <Req extends RecordOfCodecs, Opt extends RecordOfCodecs = {}>(
+    fields: Req,
+    optionalFields?: Opt
+  ) => Codec<ObjectOfEachCodecTarget<Req, Opt>>;
+  recordOf: <T>(valueCodec: Codec<T>) => Codec<Record<string, T>>;
+  mapOf: <K, V>(keyCodec: Codec<K>, valueCodec: Codec<V>) => Codec<Map<K, V>>;
+  setOf: <T>(elemCodec: Codec<T>) => Codec<Set<T>>;
+
+  literal: <L extends readonly Literal[]>(...values: L) => Codec<L[number]>;
+  enumOf: <L extends readonly Literal[]>(values: L) => Codec<L[number]>;
+  nullable: <T>(codec: Codec<T>) => Codec<T | null>;
+  optional: <T>(codec: Codec<T>) => Codec<T | undefined>;
+  unionOf: <Members extends RecordOfCodecs>(
+    members: Members,
+    tagOf: (v: UnionOfEachCodecTarget<Members>) => keyof Members & string
+  ) => Codec<UnionOfEachCodecTarget<Members>>;
 
   jsonWithValidation: <T>(validate: (p: unknown) => T) => Codec<T>;
   jsonWithIoTs: <T>(iots: IoTsType<T>) => Codec<T>;
   jsonWithSuperstruct: <T>(ss: SSStruct<T>) => Codec<T>;
   jsonWithZod: <T>(zod: ZodType<T>) => Codec<T>;
+
+  versioned: <T>(initialCodec: Codec<T>, options?: VersionedCodecOptions) => VersionedCodec<T>;
+
+  transform: <T, U>(codec: Codec<T>, to: (t: T) => U, from: (u: U) => T) => Codec<U>;
+  refine: {
+    <T, U extends T>(codec: Codec<T>, predicate: (t: T) => t is U, message?: string): Codec<U>;
+    <T>(codec: Codec<T>, predicate: (t: T) => boolean, message?: string): Codec<T>;
+  };
+  pipe: <T>(outer: Codec<string>, inner: Codec<T>) => Codec<T>;
+
+  compression: (options?: CompressionOptions) => Codec<string>;
+  compressed: <T>(codec: Codec<T>, options?: CompressionOptions) => Codec<T>;
 };
 
 const decodeError = (input: string, typeName: string) => {
-  return new Error(`input '${input}' is not decodable as ${typeName}`);
+  return new CodecError(`input '${input}' is not decodable as ${typeName}`);
+};
+
+// error on decoding an element of composite value, located at `index`.
+const elementDecodeError = (input: string, typeName: string, index: string | number, cause: unknown) => {
+  const msg = `input '${input}' is not decodable as ${typeName}`;
+  if (cause instanceof CodecError) {
+    return cause.prependPath(index, msg);
+  }
+  return new CodecError(msg, [{ path: [index], message: errorMessageOf(cause) }], cause);
+};
+
+const errorMessageOf = (e: unknown): string => {
+  return e instanceof Error ? e.message : String(e);
+};
+
+// converts `t` to JSON value by `codec`. falls back to the encoded string if `codec` doesn't support conversion to JSON values.
+const toJSONValueOf = <T>(codec: Codec<T>, t: T): unknown => {
+  return codec.toJSONValue !== undefined ? codec.toJSONValue(t) : codec.encode(t);
+};
+
+// converts JSON value `v` to the value by `codec`. strings are decoded by `decode`, since they are equal to encoded strings.
+const fromJSONValueOf = <T>(codec: Codec<T>, v: unknown): T => {
+  if (typeof v === 'string') {
+    return codec.decode(v);
+  }
+  if (codec.fromJSONValue === undefined) {
+    throw decodeError(JSON.stringify(v), 'encoded string');
+  }
+  return codec.fromJSONValue(v);
+};
+
+// `Codec` whose encoded strings are JSON representations of structured JSON values.
+// `fromJSONValue` takes the string representation of the input for error messages.
+const structuralCodec = <T>(
+  typeName: string,
+  toJSONValue: (t: T) => unknown,
+  fromJSONValue: (v: unknown, input: string) => T
+): Codec<T> => {
+  return {
+    encode: (t: T) => JSON.stringify(toJSONValue(t)),
+    decode: (s: string) => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(s) as unknown;
+      } catch (e) {
+        throw decodeError(s, typeName);
+      }
+      return fromJSONValue(parsed, s);
+    },
+    toJSONValue,
+    fromJSONValue: (v: unknown) => fromJSONValue(v, JSON.stringify(v)),
+  };
+};
+
+const isJSONObject = (v: unknown): v is Record<string, unknown> => {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+};
+
+const hasOwn = (o: object, key: string): boolean => Object.prototype.hasOwnProperty.call(o, key);
+
+// defines own property even if `key` is special (e.g. `__proto__`).
+const setOwn = (o: object, key: string, v: unknown) => {
+  Object.defineProperty(o, key, { value: v, enumerable: true, writable: true, configurable: true });
 };
 
 // `Codec` for type `T` that encodes to/decodes from JSON string, with runtime validation on decoding.
@@ -54,9 +240,17 @@ const jsonStrCodecWithValidation = <T>(validate: (p: unknown) => T): Codec<T> =>
   return {
     encode: (t: T) => JSON.stringify(t),
     decode: (s: string) => {
-      const parsed = JSON.parse(s) as unknown;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(s) as unknown;
+      } catch (e) {
+        throw new CodecError(`input '${s}' is not decodable as JSON`, undefined, e);
+      }
       return validateParsedJSON(validate, parsed);
     },
+    // string values are encoded by `JSON.stringify` to make them equal to encoded strings.
+    toJSONValue: (t: T) => (typeof t === 'string' ? JSON.stringify(t) : t),
+    fromJSONValue: (v: unknown) => validateParsedJSON(validate, v),
   };
 };
 
@@ -65,16 +259,191 @@ const validateParsedJSON = <T>(validate: (p: unknown) => T, parsed: unknown): T
   try {
     return validate(parsed);
   } catch (e) {
-    throw e;
+    if (e instanceof CodecError) {
+      throw e;
+    }
+    throw new CodecError(errorMessageOf(e), undefined, e);
+  }
+};
+
+// converts io-ts `Context` (a path from the root type to the erroneous value) to a path.
+const ioTsPathOf = (e: Errors[number]): (string | number)[] => {
+  return e.context.slice(1).map(({ key }) => key);
+};
+
+// ISO-8601 date-time with time zone designator, e.g. `2021-12-31T23:59:59.999Z`, `+012021-12-31T23:59:59+09:00`.
+const ISO_DATE_TIME_REGEX = /^([+-]\d{6}|\d{4})-(\d{2})-(\d{2})T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+// checks if the date part of ISO-8601 date-time exists in the calendar (e.g. rejects `2021-02-30`).
+const isValidCalendarDate = (year: number, month: number, day: number): boolean => {
+  const d = new Date(0);
+  d.setUTCFullYear(year, month - 1, day);
+  return d.getUTCFullYear() === year && d.getUTCMonth() === month - 1 && d.getUTCDate() === day;
+};
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_REGEX = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+const encodeBase64 = (bytes: Uint8Array): string => {
+  let res = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const [b0, b1, b2] = [bytes[i], bytes[i + 1] ?? 0, bytes[i + 2] ?? 0];
+    const n = (b0 << 16) | (b1 << 8) | b2;
+    res += BASE64_CHARS[(n >> 18) & 63] + BASE64_CHARS[(n >> 12) & 63];
+    res += i + 1 < bytes.length ? BASE64_CHARS[(n >> 6) & 63] : '=';
+    res += i + 2 < bytes.length ? BASE64_CHARS[n & 63] : '=';
+  }
+  return res;
+};
+
+// `s` must match `BASE64_REGEX`.
+const decodeBase64 = (s: string): Uint8Array => {
+  const padLen = s.endsWith('==') ? 2 : s.endsWith('=') ? 1 : 0;
+  const bytes = new Uint8Array((s.length / 4) * 3 - padLen);
+  for (let i = 0, j = 0; i < s.length; i += 4) {
+    const n = [0, 1, 2, 3].reduce((acc, k) => (acc << 6) | Math.max(BASE64_CHARS.indexOf(s[i + k]), 0), 0);
+    for (const shift of [16, 8, 0]) {
+      if (j < bytes.length) {
+        bytes[j++] = (n >> shift) & 255;
+      }
+    }
   }
+  return bytes;
+};
+
+// `literal` Codec encodes strings as is, and other literals in JSON.
+const encodeLiteral = (l: Literal): string => (typeof l === 'string' ? l : JSON.stringify(l));
+
+// `nullable` / `optional` Codec encode "absent" value to the special mark: `${MARK_PREFIX}${kind}`.
+// Encoded strings of inner Codecs that start with `MARK_PREFIX` are escaped by prefixing another `MARK_PREFIX`.
+const MARK_PREFIX = '\u0001';
+const NULL_MARK = `${MARK_PREFIX}n`;
+const UNDEFINED_MARK = `${MARK_PREFIX}u`;
+
+const withAbsentMark = <T, A extends null | undefined>(codec: Codec<T>, absent: A, mark: string): Codec<T | A> => {
+  return Object.freeze({
+    encode: (t: T | A) => {
+      if (t === absent) {
+        return mark;
+      }
+      const enc = codec.encode(t as T);
+      return enc.startsWith(MARK_PREFIX) ? `${MARK_PREFIX}${enc}` : enc;
+    },
+    decode: (s: string) => {
+      if (s === mark) {
+        return absent;
+      }
+      return codec.decode(s.startsWith(MARK_PREFIX) ? s.slice(MARK_PREFIX.length) : s);
+    },
+    // `null` is the JSON value for the absent value of `nullable`. other `null`s are represented by encoded strings.
+    toJSONValue: (t: T | A) => {
+      if (t === absent) {
+        return absent === null ? null : mark;
+      }
+      const v = toJSONValueOf(codec, t as T);
+      const str = v === null && absent === null ? codec.encode(t as T) : v;
+      if (typeof str === 'string') {
+        return str.startsWith(MARK_PREFIX) ? `${MARK_PREFIX}${str}` : str;
+      }
+      return str;
+    },
+    fromJSONValue: (v: unknown) => {
+      if (v === null && absent === null) {
+        return absent;
+      }
+      return fromJSONValueOf(codec, v);
+    },
+  });
+};
+
+// Compressed strings are marked by `COMPRESSED_MARK`.
+// Uncompressed strings that start with either of marks are escaped by prefixing `RAW_MARK`, and other strings are stored as is.
+const COMPRESSED_MARK = '\u0001z';
+const RAW_MARK = '\u0001r';
+
+const createCompressionLayer = ({ threshold = 256 }: CompressionOptions): Codec<string> => {
+  return Object.freeze({
+    encode: (s: string) => {
+      if (s.length >= threshold) {
+        const compressed = `${COMPRESSED_MARK}${compress(s)}`;
+        if (compressed.length < s.length) {
+          return compressed;
+        }
+      }
+      return s.startsWith(COMPRESSED_MARK) || s.startsWith(RAW_MARK) ? `${RAW_MARK}${s}` : s;
+    },
+    decode: (s: string) => {
+      if (s.startsWith(COMPRESSED_MARK)) {
+        return decompress(s.slice(COMPRESSED_MARK.length));
+      }
+      if (s.startsWith(RAW_MARK)) {
+        return s.slice(RAW_MARK.length);
+      }
+      // strings without marks (e.g. values stored before introducing compression)
+      return s;
+    },
+  });
+};
+
+// Encoded strings of `VersionedCodec` have the tag in the form of `${VERSION_TAG_MARK}${version}:`.
+const VERSION_TAG_MARK = '\u0001v';
+const VERSION_TAG_REGEX = /^\u0001v(\d+):/;
+
+// a step of the version chain of `VersionedCodec`: `Codec` for values in the version, and migration from the previous version.
+type VersionStep = {
+  codec: Codec<any>;
+  migration?: (prev: any) => any;
+};
+
+const createVersionedCodec = <T>(steps: VersionStep[], options: Required<VersionedCodecOptions>): VersionedCodec<T> => {
+  const { initialVersion, writeBack } = options;
+  const version = initialVersion + steps.length - 1;
+
+  const parseTag = (s: string): { ver: number; payload: string } => {
+    const m = VERSION_TAG_REGEX.exec(s);
+    if (m === null) {
+      // untagged strings are regarded as encoded in the initial version
+      return { ver: initialVersion, payload: s };
+    }
+    return { ver: Number(m[1]), payload: s.slice(m[0].length) };
+  };
+
+  return Object.freeze({
+    version,
+    writeBack,
+    versionOf: (s: string) => parseTag(s).ver,
+    encode: (t: T) => `${VERSION_TAG_MARK}${version}:${steps[steps.length - 1].codec.encode(t)}`,
+    decode: (s: string) => {
+      const { ver, payload } = parseTag(s);
+      if (ver < initialVersion || ver > version) {
+        throw new CodecError(
+          `input '${s}' is encoded in unknown version ${ver} (supported: ${initialVersion} to ${version})`
+        );
+      }
+
+      const idx = ver - initialVersion;
+      let v = steps[idx].codec.decode(payload);
+      for (const { migration } of steps.slice(idx + 1)) {
+        v = migration?.(v);
+      }
+      return v as T;
+    },
+    migrate: <U>(nextCodec: Codec<U>, migration: (prev: T) => U) =>
+      createVersionedCodec<U>([...steps, { codec: nextCodec, migration }], options),
+  });
 };
 
 /**
  * Built-in {@linkcode Codec} implementations.
  *
  * Includes:
- * - `Codec`s for basic types(`string`, `number`, `bigint`, `boolean`, arrays & tuples)
+ * - `Codec`s for basic types(`string`, `number`, `bigint`, `boolean`, arrays, tuples, objects & records)
+ * - `Codec`s for built-in objects(`Date`, `URL`, `Uint8Array`, `Map` & `Set`)
+ * - `Codec`s for literals, nullable/optional values and unions
  * - `Codec`s that interoperate with 3rd-party schema validators.
+ * - `Codec` that supports versioning and migrations of the format.
+ * - Utilities to compose `Codec`s.
+ * - `Codec`s that compress encoded strings.
  */
 export const codecs: BuiltinCodecsType = Object.freeze({
   /**
@@ -83,6 +452,13 @@ export const codecs: BuiltinCodecsType = Object.freeze({
   string: Object.freeze({
     encode: (s: string) => s,
     decode: (s: string) => s,
+    toJSONValue: (s: string) => s,
+    fromJSONValue: (v: unknown) => {
+      if (typeof v !== 'string') {
+        throw decodeError(JSON.stringify(v), 'string');
+      }
+      return v;
+    },
   }),
   /**
    * `Codec` for `number`. `decode` throws when input doesn't represent a number.
@@ -99,6 +475,14 @@ export const codecs: BuiltinCodecsType = Object.freeze({
       }
       return n;
     },
+    // numbers not representable in JSON are represented by encoded strings.
+    toJSONValue: (n: number) => (Number.isFinite(n) && !Object.is(n, -0) ? n : codecs.number.encode(n)),
+    fromJSONValue: (v: unknown) => {
+      if (typeof v !== 'number') {
+        throw decodeError(JSON.stringify(v), 'number');
+      }
+      return v;
+    },
   }),
   /**
    * `Codec` for 'bigint'. `decode` throws when input doesn't represent a bigint value.
@@ -131,6 +515,56 @@ export const codecs: BuiltinCodecsType = Object.freeze({
       }
       return parsed;
     },
+    toJSONValue: (b: boolean) => b,
+    fromJSONValue: (v: unknown) => {
+      if (typeof v !== 'boolean') {
+        throw decodeError(JSON.stringify(v), 'boolean');
+      }
+      return v;
+    },
+  }),
+  /**
+   * `Codec` for `Date`. Dates are encoded in ISO-8601 format in UTC. `decode` throws when input is not an ISO-8601 date-time or represents an invalid date.
+   * `encode` throws when the input is an invalid date.
+   */
+  date: Object.freeze({
+    encode: (d: Date) => d.toISOString(),
+    decode: (s: string) => {
+      const m = ISO_DATE_TIME_REGEX.exec(s);
+      if (m === null || !isValidCalendarDate(Number(m[1]), Number(m[2]), Number(m[3]))) {
+        throw decodeError(s, 'date');
+      }
+      const d = new Date(s);
+      if (isNaN(d.getTime())) {
+        throw decodeError(s, 'date');
+      }
+      return d;
+    },
+  }),
+  /**
+   * `Codec` for `URL`. `decode` throws when input is not an absolute URL.
+   */
+  url: Object.freeze({
+    encode: (u: URL) => u.href,
+    decode: (s: string) => {
+      try {
+        return new URL(s);
+      } catch {
+        throw decodeError(s, 'URL');
+      }
+    },
+  }),
+  /**
+   * `Codec` for binary data as `Uint8Array`. Data are encoded in base64. `decode` throws when input is not a valid base64 string.
+   */
+  uint8Array: Object.freeze({
+    encode: (bytes: Uint8Array) => encodeBase64(bytes),
+    decode: (s: string) => {
+      if (s.length % 4 !== 0 || !BASE64_REGEX.test(s)) {
+        throw decodeError(s, 'base64');
+      }
+      return decodeBase64(s);
+    },
   }),
 
   /**
@@ -145,28 +579,24 @@ export const codecs: BuiltinCodecsType = Object.freeze({
    * @param elemCodec Codec for elements of the array.
    */
   arrayOf: <T>(elemCodec: Codec<T>) => {
-    return Object.freeze({
-      encode: (arr: T[]) => JSON.stringify(arr.map(el => elemCodec.encode(el))),
-      decode: (s: string) => {
-        let parsed: unknown;
-        try {
-          parsed = JSON.parse(s) as unknown;
-        } catch (e) {
-          throw decodeError(s, 'array');
-        }
-        if (!Array.isArray(parsed)) {
-          throw decodeError(s, 'array');
-        }
-        if (!parsed.every(el => typeof el === 'string')) {
-          throw decodeError(s, 'array');
-        }
-        try {
-          return parsed.map(el => elemCodec.decode(el));
-        } catch (e) {
-          throw decodeError(s, 'array of specified type');
+    return Object.freeze(
+      structuralCodec(
+        'array',
+        (arr: T[]) => arr.map(el => toJSONValueOf(elemCodec, el)),
+        (v, input) => {
+          if (!Array.isArray(v)) {
+            throw decodeError(input, 'array');
+          }
+          return v.map((el, i) => {
+            try {
+              return fromJSONValueOf(elemCodec, el);
+            } catch (e) {
+              throw elementDecodeError(input, 'array of specified type', i, e);
+            }
+          });
         }
-      },
-    });
+      )
+    );
   },
   /**
    * Create `Codec` for arbitrary tuple type from tuple of `Codec`s for each element.
@@ -181,36 +611,337 @@ export const codecs: BuiltinCodecsType = Object.freeze({
    * @param elemCodecs Tuple of `Codec`s. Each `Codec` should be able to handle corresponding element of tuple you want to encode/decode.
    */
   tupleOf: <Codecs extends TupleOfCodecs>(elemCodecs: Codecs): Codec<TupleOfEachCodecTarget<Codecs>> => {
+    return Object.freeze(
+      structuralCodec(
+        'tuple',
+        (tup: TupleOfEachCodecTarget<Codecs>) => tup.map((e, i) => toJSONValueOf(elemCodecs[i], e)),
+        (v, input) => {
+          if (!Array.isArray(v) || v.length !== elemCodecs.length) {
+            throw decodeError(input, 'tuple');
+          }
+          const decRes = v.map((el, i) => {
+            try {
+              return fromJSONValueOf(elemCodecs[i], el);
+            } catch (e) {
+              throw elementDecodeError(input, 'tuple of specified type', i, e);
+            }
+          });
+          return decRes as unknown as TupleOfEachCodecTarget<Codecs>;
+        }
+      )
+    );
+  },
+  /**
+   * Create `Codec` for object type from `Codec`s for each field.
+   * Fields not in `fields` nor `optionalFields` are dropped on encoding/decoding.
+   *
+   * @example
+   * ```
+   * const userCodec = codecs.objectOf({ userId: codecs.number, name: codecs.string }, { nickname: codecs.string });
+   * // Codec<{ userId: number; name: string; nickname?: string }>
+   * userCodec.encode({ userId: 1, name: "Alice" });
+   * ```
+   *
+   * @param fields Record of `Codec`s for each required field.
+   * @param optionalFields Record of `Codec`s for each optional field. Optional fields whose value is `undefined` are omitted on encoding.
+   */
+  objectOf: <Req extends RecordOfCodecs, Opt extends RecordOfCodecs = {}>(
+    fields: Req,
+    optionalFields?: Opt
+  ): Codec<ObjectOfEachCodecTarget<Req, Opt>> => {
+    const optFields: RecordOfCodecs = optionalFields ?? {};
+    type Obj = ObjectOfEachCodecTarget<Req, Opt>;
+
+    return Object.freeze(
+      structuralCodec(
+        'object',
+        (obj: Obj) => {
+          const v = obj as Record<string, unknown>;
+          const res: Record<string, unknown> = {};
+          for (const [field, codec] of Object.entries(fields)) {
+            setOwn(res, field, toJSONValueOf(codec, v[field]));
+          }
+          for (const [field, codec] of Object.entries(optFields)) {
+            if (v[field] !== undefined) {
+              setOwn(res, field, toJSONValueOf(codec, v[field]));
+            }
+          }
+          return res;
+        },
+        (v, input) => {
+          if (!isJSONObject(v)) {
+            throw decodeError(input, 'object');
+          }
+          const decRes: Record<string, unknown> = {};
+          const decodeField = (field: string, codec: Codec<unknown>) => {
+            try {
+              setOwn(decRes, field, fromJSONValueOf(codec, v[field]));
+            } catch (e) {
+              throw elementDecodeError(input, 'object of specified type', field, e);
+            }
+          };
+          for (const [field, codec] of Object.entries(fields)) {
+            if (!hasOwn(v, field)) {
+              throw new CodecError(`input '${input}' is not decodable as object of specified type`, [
+                { path: [field], message: `missing required field '${field}'` },
+              ]);
+            }
+            decodeField(field, codec);
+          }
+          for (const [field, codec] of Object.entries(optFields)) {
+            if (hasOwn(v, field)) {
+              decodeField(field, codec);
+            }
+          }
+          return decRes as Obj;
+        }
+      )
+    );
+  },
+  /**
+   * `Codec` for string-keyed record whose values are of single type `T`.
+   *
+   * @example
+   * ```
+   * const scoresCodec: Codec<Record<string, number>> = codecs.recordOf(codecs.number);
+   * scoresCodec.encode({ alice: 100, bob: 80 });
+   * ```
+   *
+   * @param valueCodec Codec for values of the record.
+   */
+  recordOf: <T>(valueCodec: Codec<T>) => {
+    return Object.freeze(
+      structuralCodec(
+        'record',
+        (rec: Record<string, T>) => {
+          const res: Record<string, unknown> = {};
+          for (const [key, v] of Object.entries(rec)) {
+            setOwn(res, key, toJSONValueOf(valueCodec, v));
+          }
+          return res;
+        },
+        (v, input) => {
+          if (!isJSONObject(v)) {
+            throw decodeError(input, 'record');
+          }
+          const decRes: Record<string, T> = {};
+          for (const [key, el] of Object.entries(v)) {
+            try {
+              setOwn(decRes, key, fromJSONValueOf(valueCodec, el));
+            } catch (e) {
+              throw elementDecodeError(input, 'record of specified type', key, e);
+            }
+          }
+          return decRes;
+        }
+      )
+    );
+  },
+  /**
+   * `Codec` for `Map` from keys of type `K` to values of type `V`. Encoded as JSON array of key-value pairs, in the insertion order.
+   *
+   * @example
+   * ```
+   * const lastSeenCodec: Codec<Map<number, Date>> = codecs.mapOf(codecs.number, codecs.date);
+   * lastSeenCodec.encode(new Map([[1, new Date()]]));
+   * ```
+   *
+   * @param keyCodec Codec for keys of the map.
+   * @param valueCodec Codec for values of the map.
+   */
+  mapOf: <K, V>(keyCodec: Codec<K>, valueCodec: Codec<V>) => {
+    const entryCodec = codecs.tupleOf([keyCodec, valueCodec] as const);
+    return Object.freeze(
+      structuralCodec(
+        'map',
+        (m: Map<K, V>) => [...m.entries()].map(entry => toJSONValueOf(entryCodec, entry)),
+        (v, input) => {
+          if (!Array.isArray(v)) {
+            throw decodeError(input, 'map');
+          }
+          const entries = v.map((el, i) => {
+            try {
+              return fromJSONValueOf(entryCodec, el) as [K, V];
+            } catch (e) {
+              throw elementDecodeError(input, 'map of specified types', i, e);
+            }
+          });
+          return new Map(entries);
+        }
+      )
+    );
+  },
+  /**
+   * `Codec` for `Set` of values of single type `T`. Encoded as JSON array of elements, in the insertion order.
+   *
+   * @example
+   * ```
+   * const tagsCodec: Codec<Set<string>> = codecs.setOf(codecs.string);
+   * tagsCodec.encode(new Set(['foo', 'bar']));
+   * ```
+   *
+   * @param elemCodec Codec for elements of the set.
+   */
+  setOf: <T>(elemCodec: Codec<T>) => {
+    return Object.freeze(
+      structuralCodec(
+        'set',
+        (set: Set<T>) => [...set].map(el => toJSONValueOf(elemCodec, el)),
+        (v, input) => {
+          if (!Array.isArray(v)) {
+            throw decodeError(input, 'set');
+          }
+          return new Set(
+            v.map((el, i) => {
+              try {
+                return fromJSONValueOf(elemCodec, el);
+              } catch (e) {
+                throw elementDecodeError(input, 'set of specified type', i, e);
+              }
+            })
+          );
+        }
+      )
+    );
+  },
+
+  /**
+   * `Codec` for union of literal types. Strings are encoded as is, and other literals are encoded in JSON.
+   *
+   * @example
+   * ```
+   * const themeCodec: Codec<'light' | 'dark' | 'system'> = codecs.literal('light', 'dark', 'system');
+   * themeCodec.encode('dark');
+   * ```
+   *
+   * @param values Literals that are allowed as values. Values that represent the same string (e.g. `'1'` and `1`) can't coexist.
+   */
+  literal: <L extends readonly Literal[]>(...values: L): Codec<L[number]> => {
+    const byEncoded = new Map<string, Literal>();
+    for (const v of values) {
+      const enc = encodeLiteral(v);
+      if (byEncoded.has(enc) && !Object.is(byEncoded.get(enc), v)) {
+        throw Error(`literals ${JSON.stringify(byEncoded.get(enc))} and ${JSON.stringify(v)} can't coexist`);
+      }
+      byEncoded.set(enc, v);
+    }
+    const typeName = `one of ${values.map(v => JSON.stringify(v)).join(', ')}`;
+
+    const encode = (l: L[number]) => {
+      const enc = encodeLiteral(l);
+      if (!byEncoded.has(enc) || !Object.is(byEncoded.get(enc), l)) {
+        throw Error(`value ${JSON.stringify(l)} is not ${typeName}`);
+      }
+      return enc;
+    };
+    const decode = (s: string) => {
+      if (!byEncoded.has(s)) {
+        throw decodeError(s, typeName);
+      }
+      return byEncoded.get(s) as L[number];
+    };
     return Object.freeze({
-      encode: (tup: TupleOfEachCodecTarget<Codecs>) => {
-        const encRes = tup.map((e, i) => {
-          const codec = elemCodecs[i];
-          return codec.encode(e);
-        });
-        return JSON.stringify(encRes);
+      encode,
+      decode,
+      toJSONValue: (l: L[number]) => {
+        encode(l);
+        return l;
       },
-      decode: (s: string) => {
-        let parsed: unknown;
-        try {
-          parsed = JSON.parse(s) as unknown;
-        } catch (e) {
-          throw decodeError(s, 'tuple');
-        }
-        if (!Array.isArray(parsed) || !parsed.every(el => typeof el === 'string')) {
-          throw decodeError(s, 'tuple');
+      fromJSONValue: (v: unknown) => {
+        const l = values.find(l => typeof l !== 'string' && Object.is(l, v));
+        if (l === undefined) {
+          throw decodeError(JSON.stringify(v), typeName);
         }
+        return l as L[number];
+      },
+    });
+  },
+  /**
+   * `Codec` for union of literal types, from array of literals. Handy for enumerating literals defined as a constant.
+   *
+   * @example
+   * ```
+   * const THEMES = ['light', 'dark', 'system'] as const;
+   * const themeCodec: Codec<typeof THEMES[number]> = codecs.enumOf(THEMES);
+   * ```
+   *
+   * @param values Array of literals that are allowed as values. Should be `as const` to infer the union type.
+   */
+  enumOf: <L extends readonly Literal[]>(values: L) => {
+    return codecs.literal(...values);
+  },
+  /**
+   * Create `Codec` for `T | null` from `Codec` for type `T`.
+   *
+   * @example
+   * ```
+   * const numOrNullCodec: Codec<number | null> = codecs.nullable(codecs.number);
+   * numOrNullCodec.encode(null);
+   * ```
+   *
+   * @param codec `Codec` for non-null values.
+   */
+  nullable: <T>(codec: Codec<T>) => {
+    return withAbsentMark(codec, null, NULL_MARK);
+  },
+  /**
+   * Create `Codec` for `T | undefined` from `Codec` for type `T`.
+   *
+   * @example
+   * ```
+   * const pairCodec = codecs.tupleOf([codecs.string, codecs.optional(codecs.number)] as const);
+   * pairCodec.encode(['foo', undefined]);
+   * ```
+   *
+   * @param codec `Codec` for non-undefined values.
+   */
+  optional: <T>(codec: Codec<T>) => {
+    return withAbsentMark(codec, undefined, UNDEFINED_MARK);
+  },
+  /**
+   * Create `Codec` for union type from record of `Codec`s for each member, keyed by tags.
+   * Values are encoded along with the tag of the member, so members of different `Codec`s can be round-tripped.
+   *
+   * @example
+   * ```
+   * const idCodec: Codec<number | string> = codecs.unionOf(
+   *   { num: codecs.number, str: codecs.string },
+   *   v => (typeof v === 'number' ? 'num' : 'str')
+   * );
+   * idCodec.encode(42);
+   * ```
+   *
+   * @param members Record of `Codec`s for each member of the union, keyed by tags.
+   * @param tagOf function that returns the tag of the member to which the value belongs.
+   */
+  unionOf: <Members extends RecordOfCodecs>(
+    members: Members,
+    tagOf: (v: UnionOfEachCodecTarget<Members>) => keyof Members & string
+  ): Codec<UnionOfEachCodecTarget<Members>> => {
+    return Object.freeze(
+      structuralCodec(
+        'tagged union',
+        (v: UnionOfEachCodecTarget<Members>) => {
+          const tag = tagOf(v);
+          if (!hasOwn(members, tag)) {
+            throw Error(`unknown tag of union: ${tag}`);
+          }
+          return [tag, toJSONValueOf(members[tag], v)];
+        },
+        (v, input) => {
+          if (!Array.isArray(v) || v.length !== 2 || typeof v[0] !== 'string' || !hasOwn(members, v[0])) {
+            throw decodeError(input, 'tagged union');
+          }
 
-        const decRes = parsed.map((s, i) => {
-          const codec = elemCodecs[i];
+          const [tag, val] = v as [string, unknown];
           try {
-            return codec.decode(s);
+            return fromJSONValueOf(members[tag], val) as UnionOfEachCodecTarget<Members>;
           } catch (e) {
-            throw decodeError(s, 'tuple of specified type');
+            throw elementDecodeError(input, 'tagged union of specified types', tag, e);
           }
-        });
-        return decRes as unknown as TupleOfEachCodecTarget<Codecs>;
-      },
-    });
+        }
+      )
+    );
   },
 
   /**
@@ -249,14 +980,15 @@ export const codecs: BuiltinCodecsType = Object.freeze({
         const validated = iots.decode(parsed);
         return fold(
           // onLeft
-          (_: Errors) => {
+          (errs: Errors) => {
             const rep = reporter ?? PathReporter;
             const repRes = rep.report(validated);
-            if (typeof repRes === 'string') {
-              throw new Error(repRes);
-            } else {
-              throw new Error(repRes.join(', '));
-            }
+            const msg = typeof repRes === 'string' ? repRes : repRes.join(', ');
+            const issues: CodecIssue[] = errs.map(e => ({
+              path: ioTsPathOf(e),
+              message: e.message ?? `invalid value: ${JSON.stringify(e.value)}`,
+            }));
+            throw new CodecError(msg, issues, errs);
           },
           // onRight
           (t: T) => t
@@ -288,8 +1020,12 @@ export const codecs: BuiltinCodecsType = Object.freeze({
   jsonWithSuperstruct: <T>(ss: SSStruct<T>) => {
     return Object.freeze(
       jsonStrCodecWithValidation((parsed: unknown) => {
-        assertBySS(parsed, ss);
-        return parsed;
+        const [err, validated] = validateBySS(parsed, ss);
+        if (err !== undefined) {
+          const issues = err.failures().map(({ path, message }) => ({ path, message }));
+          throw new CodecError(err.message, issues, err);
+        }
+        return validated as T;
       })
     );
   },
@@ -317,8 +1053,155 @@ export const codecs: BuiltinCodecsType = Object.freeze({
   jsonWithZod: <T>(zod: ZodType<T>) => {
     return Object.freeze(
       jsonStrCodecWithValidation((parsed: unknown) => {
-        return zod.parse(parsed);
+        const res = zod.safeParse(parsed);
+        if (!res.success) {
+          const issues = res.error.issues.map(({ path, message }) => ({ path, message }));
+          throw new CodecError(res.error.message, issues, res.error);
+        }
+        return res.data;
       })
     );
   },
+
+  /**
+   * Creates `VersionedCodec`, that tags encoded strings with the version of the format.
+   * By chaining `migrate`, you can register a `Codec` for each version and a migration from the previous version.
+   * Values encoded in older versions are migrated to the current version on decoding.
+   *
+   * Strings without version tag (e.g. values stored before introducing versioning) are regarded as encoded in the initial version.
+   *
+   * @example
+   * ```
+   * import { z } from 'zod';
+   *
+   * const SettingsV1 = z.object({ theme: z.string() });
+   * const SettingsV2 = z.object({ theme: z.enum(['light', 'dark']), fontSize: z.number() });
+   *
+   * const settingsCodec = codecs
+   *   .versioned(codecs.jsonWithZod(SettingsV1))
+   *   .migrate(codecs.jsonWithZod(SettingsV2), v1 => ({
+   *     theme: v1.theme === 'dark' ? 'dark' : 'light',
+   *     fontSize: 14,
+   *   }));
+   *
+   * settingsCodec.decode('{"theme":"dark"}'); // => { theme: 'dark', fontSize: 14 }
+   * ```
+   *
+   * @param initialCodec `Codec` for values in the initial version.
+   * @param options options for versioning.
+   */
+  versioned: <T>(initialCodec: Codec<T>, options: VersionedCodecOptions = {}) => {
+    const { initialVersion = 1, writeBack = false } = options;
+    return createVersionedCodec<T>([{ codec: initialCodec }], { initialVersion, writeBack });
+  },
+
+  /**
+   * Create `Codec` for type `U` from `Codec` for type `T` and an isomorphism between `T` and `U`.
+   *
+   * @example
+   * ```
+   * type UserId = number & { __brand: 'UserId' };
+   * const userIdCodec: Codec<UserId> = codecs.transform(codecs.number, n => n as UserId, id => id);
+   * ```
+   *
+   * @param codec `Codec` for the underlying type `T`.
+   * @param to function that converts a decoded value of type `T` to `U`. Throwing error in it makes decoding fail.
+   * @param from function that converts a value of type `U` to `T` before encoding. Should be the inverse of `to`.
+   */
+  transform: <T, U>(codec: Codec<T>, to: (t: T) => U, from: (u: U) => T) => {
+    const convert = (t: T, input: string) => {
+      try {
+        return to(t);
+      } catch (e) {
+        throw e instanceof CodecError
+          ? e
+          : new CodecError(`input '${input}' is not decodable: ${errorMessageOf(e)}`, undefined, e);
+      }
+    };
+    return Object.freeze({
+      encode: (u: U) => codec.encode(from(u)),
+      decode: (s: string) => convert(codec.decode(s), s),
+      toJSONValue: (u: U) => toJSONValueOf(codec, from(u)),
+      fromJSONValue: (v: unknown) => convert(fromJSONValueOf(codec, v), JSON.stringify(v)),
+    });
+  },
+  /**
+   * Create `Codec` that validates decoded values of `codec` by `predicate`. Decoding fails if `predicate` doesn't hold.
+   * If `predicate` is a type guard, the type of values is narrowed accordingly.
+   *
+   * Values are not validated on encoding.
+   *
+   * @example
+   * ```
+   * const positiveIntCodec = codecs.refine(codecs.number, n => Number.isInteger(n) && n > 0, 'positive integer');
+   * positiveIntCodec.decode('-1'); // throws
+   * ```
+   *
+   * @param codec `Codec` for values to be validated.
+   * @param predicate condition that decoded values should satisfy.
+   * @param message description of the condition, used in the error message.
+   */
+  refine: <T>(codec: Codec<T>, predicate: (t: T) => boolean, message = 'refined type') => {
+    const check = (t: T, input: string) => {
+      if (!predicate(t)) {
+        throw decodeError(input, message);
+      }
+      return t;
+    };
+    return Object.freeze({
+      encode: (t: T) => codec.encode(t),
+      decode: (s: string) => check(codec.decode(s), s),
+      toJSONValue: (t: T) => toJSONValueOf(codec, t),
+      fromJSONValue: (v: unknown) => check(fromJSONValueOf(codec, v), JSON.stringify(v)),
+    });
+  },
+  /**
+   * Create `Codec` that layers the string-to-string conversion `outer` (e.g. compression or encryption) over `inner`.
+   * On encoding, a value is encoded by `inner` then by `outer`. On decoding, vice versa.
+   *
+   * @example
+   * ```
+   * const reversed: Codec<string> = { encode: s => [...s].reverse().join(''), decode: s => [...s].reverse().join('') };
+   * const reversedNumCodec: Codec<number> = codecs.pipe(reversed, codecs.number);
+   * reversedNumCodec.encode(123); // => '321'
+   * ```
+   *
+   * @param outer `Codec` that converts strings encoded by `inner` to strings stored.
+   * @param inner `Codec` for values.
+   */
+  pipe: <T>(outer: Codec<string>, inner: Codec<T>) => {
+    return Object.freeze({
+      encode: (t: T) => outer.encode(inner.encode(t)),
+      decode: (s: string) => inner.decode(outer.decode(s)),
+    });
+  },
+
+  /**
+   * Creates string-to-string `Codec` that compresses strings by LZ-style algorithm.
+   * Compressed strings are marked, so strings stored without compression (e.g. values stored before introducing compression) are still decodable.
+   * Compressed strings contain neither control characters nor lone surrogates, so they are safe to be stored in web storages.
+   *
+   * Use it with `codecs.pipe`, or use `codecs.compressed` to compress values of arbitrary `Codec`.
+   *
+   * @param options options for compression.
+   */
+  compression: (options: CompressionOptions = {}) => {
+    return createCompressionLayer(options);
+  },
+  /**
+   * Create `Codec` that compresses strings encoded by `codec`. Equivalent to `codecs.pipe(codecs.compression(options), codec)`.
+   *
+   * To compress all values in a typed storage, use `compression` option of `createTypedStorage` instead.
+   *
+   * @example
+   * ```
+   * const docCodec = codecs.compressed(codecs.jsonWithZod(EditorDocument));
+   * ```
+   *
+   * @param codec `Codec` whose encoded strings are to be compressed.
+   * @param options options for compression.
+   */
+  compressed: <T>(codec: Codec<T>, options: CompressionOptions = {}) => {
+    return codecs.pipe(createCompressionLayer(options), codec);
+  },
 });
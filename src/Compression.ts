@@ -0,0 +1,144 @@
+import { CodecError } from './Errors';
+
+/*
+ * LZ-style (LZW variant) string compression.
+ *
+ * The dictionary starts empty, and characters are registered by emitting them as literals at their first occurrences.
+ * Emitted codes are packed as bit stream, 15 bits per character. Each character of compressed strings is in the range
+ * of `CHAR_OFFSET` to `CHAR_OFFSET + 2^15 - 1`, which contains neither control characters nor (lone) surrogates.
+ * So compressed strings are safe to be stored in web storages.
+ */
+
+const BITS_PER_CHAR = 15;
+const CHAR_OFFSET = 32;
+
+// special codes: "8-bit literal follows", "16-bit literal follows" and "end of stream".
+const LITERAL_8 = 0;
+const LITERAL_16 = 1;
+const END_OF_STREAM = 2;
+const FIRST_ENTRY_CODE = 3;
+
+// bit width of the `k`-th emitted code (0-origin).
+// every emission adds at most 2 entries (the literal and the new sequence) to the dictionary, so codes up to `2k + 3` may appear.
+const codeWidth = (k: number): number => 32 - Math.clz32(2 * k + FIRST_ENTRY_CODE);
+
+/**
+ * Compresses the string. The result is decompressed by {@linkcode decompress}.
+ */
+export const compress = (s: string): string => {
+  const out: string[] = [];
+  let buf = 0;
+  let bufLen = 0;
+  const writeBits = (v: number, width: number) => {
+    for (let i = width - 1; i >= 0; i--) {
+      buf = (buf << 1) | ((v >> i) & 1);
+      bufLen++;
+      if (bufLen === BITS_PER_CHAR) {
+        out.push(String.fromCharCode(buf + CHAR_OFFSET));
+        buf = 0;
+        bufLen = 0;
+      }
+    }
+  };
+
+  const dict = new Map<string, number>();
+  const pendingLiterals = new Set<string>();
+  let nextCode = FIRST_ENTRY_CODE;
+  let k = 0;
+
+  const emit = (w: string) => {
+    const width = codeWidth(k++);
+    if (pendingLiterals.delete(w)) {
+      const c = w.charCodeAt(0);
+      if (c < 256) {
+        writeBits(LITERAL_8, width);
+        writeBits(c, 8);
+      } else {
+        writeBits(LITERAL_16, width);
+        writeBits(c, 16);
+      }
+      return;
+    }
+    writeBits(dict.get(w) as number, width);
+  };
+
+  let w = '';
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i];
+    if (!dict.has(c)) {
+      dict.set(c, nextCode++);
+      pendingLiterals.add(c);
+    }
+    const wc = w + c;
+    if (dict.has(wc)) {
+      w = wc;
+      continue;
+    }
+    emit(w);
+    dict.set(wc, nextCode++);
+    w = c;
+  }
+  if (w !== '') {
+    emit(w);
+  }
+  writeBits(END_OF_STREAM, codeWidth(k));
+  if (bufLen > 0) {
+    writeBits(0, BITS_PER_CHAR - bufLen);
+  }
+  return out.join('');
+};
+
+/**
+ * Decompresses the string compressed by {@linkcode compress}. Throws {@linkcode CodecError} if the input is corrupted.
+ */
+export const decompress = (s: string): string => {
+  const corrupted = () => new CodecError(`input is not a valid compressed string`);
+
+  let pos = 0;
+  const readBits = (width: number): number => {
+    let v = 0;
+    for (let i = 0; i < width; i++, pos++) {
+      const idx = Math.floor(pos / BITS_PER_CHAR);
+      if (idx >= s.length) {
+        throw corrupted();
+      }
+      const chunk = s.charCodeAt(idx) - CHAR_OFFSET;
+      if (chunk < 0 || chunk >= 1 << BITS_PER_CHAR) {
+        throw corrupted();
+      }
+      v = (v << 1) | ((chunk >> (BITS_PER_CHAR - 1 - (pos % BITS_PER_CHAR))) & 1);
+    }
+    return v;
+  };
+
+  // entries for special codes are placeholders.
+  const entries: string[] = ['', '', ''];
+  const out: string[] = [];
+  let prev: string | null = null;
+
+  for (let k = 0; ; k++) {
+    const code = readBits(codeWidth(k));
+    if (code === END_OF_STREAM) {
+      break;
+    }
+
+    let entry: string;
+    if (code === LITERAL_8 || code === LITERAL_16) {
+      entry = String.fromCharCode(readBits(code === LITERAL_8 ? 8 : 16));
+      entries.push(entry);
+    } else if (code < entries.length) {
+      entry = entries[code];
+    } else if (code === entries.length && prev !== null) {
+      // the entry that is being defined by this code
+      entry = prev + prev[0];
+    } else {
+      throw corrupted();
+    }
+    if (prev !== null) {
+      entries.push(prev + entry[0]);
+    }
+    out.push(entry);
+    prev = entry;
+  }
+  return out.join('');
+};
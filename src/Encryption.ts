@@ -0,0 +1,161 @@
+import {
+  AsyncBaseStorage,
+  AsyncEnumerableBaseStorage,
+  BaseStorage,
+  EnumerableBaseStorage,
+  isEnumerable,
+} from './BaseStorage';
+import { codecs } from './Codec';
+import { IntegrityError } from './Errors';
+
+/**
+ * Options for {@linkcode createEncryptedStorage}.
+ */
+export interface EncryptionOptions {
+  /**
+   * AES-GCM keys for encryption/decryption, keyed by key ids. Key ids must not contain `.`.
+   *
+   * To rotate keys, add a new key and make it current. Values encrypted with old keys are still decryptable as long as the old keys are here.
+   */
+  keys: Record<string, CryptoKey>;
+
+  /**
+   * Id of the key used to encrypt values.
+   */
+  currentKeyId: string;
+
+  /**
+   * If `true`, values encrypted with keys other than the current key are re-encrypted with the current key on retrieval. Defaults to `false`.
+   */
+  reencryptOnRead?: boolean;
+
+  /**
+   * Implementation of WebCrypto API. Defaults to `crypto` of the global scope.
+   *
+   * In Node.js, you can pass `require('crypto').webcrypto`.
+   */
+  crypto?: Crypto;
+}
+
+// Encrypted values are stored in the form of `${keyId}.${base64(iv)}.${base64(ciphertext)}`.
+const IV_LENGTH = 12;
+
+const defaultCrypto = (): Crypto => {
+  if (typeof crypto === 'undefined' || crypto.subtle === undefined) {
+    throw Error('WebCrypto API is not available. specify its implementation by `crypto` option');
+  }
+  return crypto;
+};
+
+/**
+ * Creates an {@linkcode AsyncBaseStorage} that encrypts values with AES-GCM before storing them to the `base` storage.
+ * Use it with `createAsyncTypedStorage` to encrypt values at rest.
+ *
+ * Each value is encrypted with a fresh IV, and bound to its key in the `base` storage, so values moved to other keys fail to be decrypted.
+ * Values that fail the authenticated decryption, or are encrypted with keys not in `keys`, are reported by {@linkcode IntegrityError}.
+ *
+ * If the `base` storage can enumerate keys, so can the resulting storage.
+ *
+ * @example
+ * ```
+ * const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+ * const base = createEncryptedStorage(baseStorages.webLocal, { keys: { k1: key }, currentKeyId: 'k1' });
+ *
+ * const storage = createAsyncTypedStorage({ token: codecs.string }, { base });
+ * await storage.set('token', 'secret'); // stored encrypted
+ * ```
+ *
+ * @param base underlying storage to store encrypted values.
+ * @param options options for encryption.
+ */
+export function createEncryptedStorage(
+  base: EnumerableBaseStorage | AsyncEnumerableBaseStorage,
+  options: EncryptionOptions
+): AsyncEnumerableBaseStorage;
+export function createEncryptedStorage(
+  base: BaseStorage | AsyncBaseStorage,
+  options: EncryptionOptions
+): AsyncBaseStorage;
+export function createEncryptedStorage(
+  base: BaseStorage | AsyncBaseStorage,
+  { keys, currentKeyId, reencryptOnRead = false, crypto: webCrypto = defaultCrypto() }: EncryptionOptions
+): AsyncBaseStorage {
+  if (!Object.prototype.hasOwnProperty.call(keys, currentKeyId)) {
+    throw Error(`current key '${currentKeyId}' is not in keys`);
+  }
+  if (Object.keys(keys).some(id => id.includes('.'))) {
+    throw Error("key ids must not contain '.'");
+  }
+  const { subtle } = webCrypto;
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+
+  const encrypt = async (key: string, value: string): Promise<string> => {
+    const iv = webCrypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: encoder.encode(key) },
+      keys[currentKeyId],
+      encoder.encode(value)
+    );
+    return [currentKeyId, codecs.uint8Array.encode(iv), codecs.uint8Array.encode(new Uint8Array(ciphertext))].join('.');
+  };
+
+  // returns the decrypted value and the id of the key used.
+  const decrypt = async (key: string, stored: string): Promise<{ value: string; keyId: string }> => {
+    const parts = stored.split('.');
+    if (parts.length !== 3) {
+      throw new IntegrityError('malformed encrypted value', { physicalKey: key });
+    }
+    const [keyId, ivStr, ciphertextStr] = parts;
+    if (!Object.prototype.hasOwnProperty.call(keys, keyId)) {
+      throw new IntegrityError(`value is encrypted with unknown key '${keyId}'`, { physicalKey: key, keyId });
+    }
+
+    let iv: Uint8Array;
+    let ciphertext: Uint8Array;
+    try {
+      iv = codecs.uint8Array.decode(ivStr);
+      ciphertext = codecs.uint8Array.decode(ciphertextStr);
+    } catch (e) {
+      throw new IntegrityError('malformed encrypted value', { physicalKey: key, cause: e });
+    }
+
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await subtle.decrypt(
+        { name: 'AES-GCM', iv, additionalData: encoder.encode(key) },
+        keys[keyId],
+        ciphertext
+      );
+    } catch (e) {
+      throw new IntegrityError('failed to decrypt value (tampered with or corrupted)', { physicalKey: key, cause: e });
+    }
+    return { value: decoder.decode(plaintext), keyId };
+  };
+
+  const storage: AsyncBaseStorage = {
+    async get(key: string) {
+      const stored = await base.get(key);
+      if (stored === null) {
+        return null;
+      }
+      const { value, keyId } = await decrypt(key, stored);
+      if (reencryptOnRead && keyId !== currentKeyId) {
+        await base.set(key, await encrypt(key, value));
+      }
+      return value;
+    },
+    async set(key: string, value: string) {
+      await base.set(key, await encrypt(key, value));
+    },
+    async remove(key: string) {
+      await base.remove(key);
+    },
+  };
+  if (isEnumerable(base as AsyncBaseStorage)) {
+    const enumerable = base as AsyncEnumerableBaseStorage;
+    const enumerableStorage: AsyncEnumerableBaseStorage = { ...storage, keys: async () => enumerable.keys() };
+    return enumerableStorage;
+  }
+  return storage;
+}
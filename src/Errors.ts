@@ -0,0 +1,206 @@
+/**
+ * An issue found by a `Codec` on decoding.
+ */
+export interface CodecIssue {
+  /**
+   * Path to the erroneous part of the input, e.g. `['users', 0, 'name']`. Empty if the input as a whole is erroneous.
+   */
+  path: (string | number)[];
+
+  /**
+   * Description of the issue.
+   */
+  message: string;
+}
+
+/**
+ * Error thrown from built-in `Codec`s when the input is not decodable.
+ */
+export class CodecError extends Error {
+  /**
+   * Issues found on decoding.
+   */
+  readonly issues: CodecIssue[];
+
+  /**
+   * The original error that caused this error, if any (e.g. errors from schema validation libraries).
+   */
+  readonly cause: unknown;
+
+  constructor(message: string, issues: CodecIssue[] = [{ path: [], message }], cause?: unknown) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'CodecError';
+    this.issues = issues;
+    this.cause = cause;
+  }
+
+  /**
+   * Path to the erroneous part of the input, of the first issue.
+   */
+  get path(): (string | number)[] {
+    return this.issues[0]?.path ?? [];
+  }
+
+  /**
+   * Returns a copy of this error whose issue paths are prefixed by `segment`.
+   * Used by `Codec`s for composite values to locate issues in their elements.
+   */
+  prependPath(segment: string | number, message: string = this.message): CodecError {
+    const issues = this.issues.map(({ path, message }) => ({ path: [segment, ...path], message }));
+    return new CodecError(message, issues, this.cause);
+  }
+}
+
+/**
+ * Reason of a failure of an operation on typed storage wrappers.
+ *
+ * - `decode`: the stored value is not decodable by the `Codec` (i.e. the value is corrupted)
+ * - `encode`: the value is not encodable by the `Codec`
+ * - `backend`: the underlying storage failed
+ * - `integrity`: the stored value failed the integrity check (i.e. the value is tampered with), e.g. on decryption
+ * - `quota`: the underlying storage ran out of space, or the value doesn't fit in the budget
+ */
+export type StorageFailureReason = 'decode' | 'encode' | 'backend' | 'integrity' | 'quota';
+
+/**
+ * Context of an error thrown from typed storage wrappers.
+ */
+export interface TypedStorageErrorContext {
+  /**
+   * Key of the typed storage wrapper that the failed operation is for. `undefined` if the operation is not for a specific key.
+   */
+  key?: string;
+
+  /**
+   * Key in the underlying storage (i.e. `key` prefixed with `keyPrefix`).
+   */
+  physicalKey?: string;
+
+  /**
+   * The original error that caused the failure.
+   */
+  cause?: unknown;
+}
+
+/**
+ * Base class of errors thrown from typed storage wrappers.
+ */
+export class TypedStorageError extends Error {
+  /**
+   * Reason of the failure.
+   */
+  readonly reason: StorageFailureReason;
+
+  /**
+   * Key of the typed storage wrapper that the failed operation is for. `undefined` if the operation is not for a specific key.
+   */
+  readonly key: string | undefined;
+
+  /**
+   * Key in the underlying storage (i.e. `key` prefixed with `keyPrefix`).
+   */
+  readonly physicalKey: string | undefined;
+
+  /**
+   * The original error that caused the failure.
+   */
+  readonly cause: unknown;
+
+  constructor(reason: StorageFailureReason, message: string, { key, physicalKey, cause }: TypedStorageErrorContext) {
+    super(hasStringMessage(cause) ? `${message}: ${cause.message}` : message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'TypedStorageError';
+    this.reason = reason;
+    this.key = key;
+    this.physicalKey = physicalKey;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Error thrown when a stored value is not decodable by the `Codec` for the key.
+ */
+export class DecodeError extends TypedStorageError {
+  /**
+   * The raw string stored in the underlying storage.
+   */
+  readonly raw: string;
+
+  /**
+   * Issues found by the `Codec`. Empty if the `Codec` didn't report any issues in the form of {@linkcode CodecError}.
+   */
+  readonly issues: CodecIssue[];
+
+  constructor(message: string, context: TypedStorageErrorContext & { raw: string }) {
+    super('decode', message, context);
+    this.name = 'DecodeError';
+    this.raw = context.raw;
+    this.issues = context.cause instanceof CodecError ? context.cause.issues : [];
+  }
+
+  /**
+   * Path to the erroneous part of the stored value, of the first issue.
+   */
+  get path(): (string | number)[] {
+    return this.issues[0]?.path ?? [];
+  }
+}
+
+/**
+ * Error thrown when a value is not encodable by the `Codec` for the key.
+ */
+export class EncodeError extends TypedStorageError {
+  constructor(message: string, context: TypedStorageErrorContext) {
+    super('encode', message, context);
+    this.name = 'EncodeError';
+  }
+}
+
+/**
+ * Error thrown when an operation on the underlying storage failed.
+ */
+export class StorageBackendError extends TypedStorageError {
+  constructor(message: string, context: TypedStorageErrorContext) {
+    super('backend', message, context);
+    this.name = 'StorageBackendError';
+  }
+}
+
+/**
+ * Error thrown when a stored value failed the integrity check, e.g. authenticated decryption of a value in the encrypted storage.
+ * It indicates that the value has been tampered with, or the value is corrupted.
+ */
+export class IntegrityError extends TypedStorageError {
+  /**
+   * Id of the encryption key that the value is encrypted with, if the key is unknown to the encrypted storage.
+   */
+  readonly keyId: string | undefined;
+
+  constructor(message: string, context: TypedStorageErrorContext & { keyId?: string }) {
+    super('integrity', message, context);
+    this.name = 'IntegrityError';
+    this.keyId = context.keyId;
+  }
+}
+
+/**
+ * Error thrown when a value cannot be stored due to lack of space, i.e. the underlying storage reported that its quota is exceeded,
+ * or the value doesn't fit in the budget of the typed storage wrapper, even after evicting other values.
+ */
+export class QuotaExceededError extends TypedStorageError {
+  constructor(message: string, context: TypedStorageErrorContext) {
+    super('quota', message, context);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+const hasStringMessage = (v: unknown): v is { message: string } => {
+  if (typeof v !== 'object' || v === null) {
+    return false;
+  }
+  if (!('message' in v)) {
+    return false;
+  }
+  return typeof (v as { message: unknown }).message === 'string';
+};
@@ -0,0 +1,290 @@
+import { AsyncEnumerableBaseStorage, EnumerableBaseStorage } from './BaseStorage';
+
+/**
+ * Subset of synchronous file system API of Node.js (`fs` module) used by {@linkcode createFileStorage}.
+ */
+export interface FileSystem {
+  readFileSync(path: string, encoding: 'utf8'): string;
+  writeFileSync(path: string, data: string, encoding: 'utf8'): void;
+  renameSync(oldPath: string, newPath: string): void;
+  unlinkSync(path: string): void;
+  readdirSync(path: string): string[];
+  mkdirSync(path: string, options: { recursive: true }): unknown;
+}
+
+/**
+ * Subset of promise-based file system API of Node.js (`fs/promises` module) used by {@linkcode createAsyncFileStorage}.
+ */
+export interface AsyncFileSystem {
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+  writeFile(path: string, data: string, encoding: 'utf8'): Promise<void>;
+  rename(oldPath: string, newPath: string): Promise<void>;
+  unlink(path: string): Promise<void>;
+  readdir(path: string): Promise<string[]>;
+  mkdir(path: string, options: { recursive: true }): Promise<unknown>;
+}
+
+/**
+ * Options for file-system-backed storages.
+ *
+ * - `{ layout: 'directory', path }`: stores each value in a file under the directory `path`. File names are escaped keys.
+ * - `{ layout: 'jsonFile', path }`: stores all key-value pairs in the single JSON file `path`.
+ *
+ * Either way, files are written atomically: written to temporary files first, then renamed.
+ */
+export type FileStorageOptions = { layout: 'directory'; path: string } | { layout: 'jsonFile'; path: string };
+
+/* escaping keys to file names */
+// UTF-16 code units other than lowercase alphanumerics, `_` and `-` are escaped in the form of `%XX` (ASCII) or `%uXXXX` (others),
+// so that any string including lone surrogates can be a key. uppercase letters are also escaped, since file names are case-insensitive
+// on some platforms, and the prefix avoids reserved names like `CON` on Windows.
+const FILE_NAME_PREFIX = 'k_';
+
+const hex = (code: number, digits: number) => code.toString(16).toUpperCase().padStart(digits, '0');
+
+const escapeKey = (key: string): string => {
+  const escaped = key.split('').map(ch => {
+    if (/^[a-z0-9_-]$/.test(ch)) {
+      return ch;
+    }
+    const code = ch.charCodeAt(0);
+    return code < 0x80 ? `%${hex(code, 2)}` : `%u${hex(code, 4)}`;
+  });
+  return `${FILE_NAME_PREFIX}${escaped.join('')}`;
+};
+
+// returns `null` if `name` is not a file name of escaped key.
+const unescapeKey = (name: string): string | null => {
+  if (!name.startsWith(FILE_NAME_PREFIX)) {
+    return null;
+  }
+  const key = name
+    .slice(FILE_NAME_PREFIX.length)
+    .replace(/%u([0-9A-F]{4})|%([0-9A-F]{2})/g, (_, u?: string, a?: string) =>
+      String.fromCharCode(parseInt(u ?? a ?? '', 16))
+    );
+  // rejects names not escaped by `escapeKey`, e.g. names of temporary files
+  return escapeKey(key) === name ? key : null;
+};
+
+const joinPath = (dir: string, name: string) => `${dir}/${name}`;
+const dirnameOf = (path: string) => {
+  const i = Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\'));
+  return i < 0 ? '.' : path.slice(0, Math.max(i, 1));
+};
+
+// temporary files have names that never collide with escaped keys, since `.` in keys is always escaped.
+const tempPathOf = (path: string) => `${path}.${Math.random().toString(36).slice(2)}.tmp`;
+
+const isNotFound = (e: unknown): boolean => {
+  return typeof e === 'object' && e !== null && (e as { code?: unknown }).code === 'ENOENT';
+};
+
+/* serialization of the JSON file */
+const parseJSONFile = (content: string): Map<string, string> => {
+  const parsed = JSON.parse(content) as unknown;
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw Error('content of the storage file is not a JSON object');
+  }
+  return new Map(Object.entries(parsed).filter((e): e is [string, string] => typeof e[1] === 'string'));
+};
+
+const stringifyJSONFile = (m: Map<string, string>): string => {
+  const obj = {};
+  for (const [k, v] of m) {
+    // defines own property even if `k` is special (e.g. `__proto__`)
+    Object.defineProperty(obj, k, { value: v, enumerable: true });
+  }
+  return JSON.stringify(obj);
+};
+
+/**
+ * Creates a {@linkcode BaseStorage} backed by the file system, using synchronous file system API of Node.js.
+ *
+ * The file system API is injected so that this library doesn't depend on Node.js.
+ *
+ * @example
+ * ```
+ * import * as fs from 'fs';
+ *
+ * const base = createFileStorage(fs, { layout: 'directory', path: '/path/to/storage' });
+ * const storage = createTypedStorage({ lastRun: codecs.date }, { base });
+ * ```
+ *
+ * @param fs synchronous file system API (`fs` module of Node.js)
+ * @param options layout and location of files.
+ */
+export const createFileStorage = (fs: FileSystem, options: FileStorageOptions): EnumerableBaseStorage => {
+  const readOrNull = (path: string): string | null => {
+    try {
+      return fs.readFileSync(path, 'utf8');
+    } catch (e) {
+      if (isNotFound(e)) {
+        return null;
+      }
+      throw e;
+    }
+  };
+  const writeAtomically = (path: string, data: string) => {
+    fs.mkdirSync(dirnameOf(path), { recursive: true });
+    const tmp = tempPathOf(path);
+    try {
+      fs.writeFileSync(tmp, data, 'utf8');
+      fs.renameSync(tmp, path);
+    } catch (e) {
+      // removes the temporary file if any, ignoring errors since the original error is more informative
+      try {
+        fs.unlinkSync(tmp);
+      } catch {
+        // ignore
+      }
+      throw e;
+    }
+  };
+
+  if (options.layout === 'jsonFile') {
+    const { path } = options;
+    const load = () => {
+      const content = readOrNull(path);
+      return content === null ? new Map<string, string>() : parseJSONFile(content);
+    };
+    return Object.freeze({
+      get: (key: string) => load().get(key) ?? null,
+      set: (key: string, value: string) => {
+        const m = load();
+        m.set(key, value);
+        writeAtomically(path, stringifyJSONFile(m));
+      },
+      remove: (key: string) => {
+        const m = load();
+        if (m.delete(key)) {
+          writeAtomically(path, stringifyJSONFile(m));
+        }
+      },
+      keys: () => Array.from(load().keys()),
+    });
+  }
+
+  const { path: dir } = options;
+  return Object.freeze({
+    get: (key: string) => readOrNull(joinPath(dir, escapeKey(key))),
+    set: (key: string, value: string) => writeAtomically(joinPath(dir, escapeKey(key)), value),
+    remove: (key: string) => {
+      try {
+        fs.unlinkSync(joinPath(dir, escapeKey(key)));
+      } catch (e) {
+        if (!isNotFound(e)) {
+          throw e;
+        }
+      }
+    },
+    keys: () => {
+      let names: string[];
+      try {
+        names = fs.readdirSync(dir);
+      } catch (e) {
+        if (isNotFound(e)) {
+          return [];
+        }
+        throw e;
+      }
+      return names.map(unescapeKey).filter((k): k is string => k !== null);
+    },
+  });
+};
+
+/**
+ * Creates an {@linkcode AsyncBaseStorage} backed by the file system, using promise-based file system API of Node.js.
+ *
+ * The file system API is injected so that this library doesn't depend on Node.js.
+ *
+ * @example
+ * ```
+ * import * as fsPromises from 'fs/promises';
+ *
+ * const base = createAsyncFileStorage(fsPromises, { layout: 'jsonFile', path: '/path/to/storage.json' });
+ * const storage = createAsyncTypedStorage({ lastRun: codecs.date }, { base });
+ * ```
+ *
+ * @param fs promise-based file system API (`fs/promises` module of Node.js)
+ * @param options layout and location of files.
+ */
+export const createAsyncFileStorage = (
+  fs: AsyncFileSystem,
+  options: FileStorageOptions
+): AsyncEnumerableBaseStorage => {
+  const readOrNull = async (path: string): Promise<string | null> => {
+    try {
+      return await fs.readFile(path, 'utf8');
+    } catch (e) {
+      if (isNotFound(e)) {
+        return null;
+      }
+      throw e;
+    }
+  };
+  const writeAtomically = async (path: string, data: string) => {
+    await fs.mkdir(dirnameOf(path), { recursive: true });
+    const tmp = tempPathOf(path);
+    try {
+      await fs.writeFile(tmp, data, 'utf8');
+      await fs.rename(tmp, path);
+    } catch (e) {
+      await fs.unlink(tmp).catch(() => undefined);
+      throw e;
+    }
+  };
+
+  if (options.layout === 'jsonFile') {
+    const { path } = options;
+    const load = async () => {
+      const content = await readOrNull(path);
+      return content === null ? new Map<string, string>() : parseJSONFile(content);
+    };
+    // read-modify-write operations on the file are serialized, so that concurrent writes in the process don't lose updates
+    let lastWrite: Promise<unknown> = Promise.resolve();
+    const modify = (f: (m: Map<string, string>) => boolean): Promise<void> => {
+      const write = lastWrite.then(async () => {
+        const m = await load();
+        if (f(m)) {
+          await writeAtomically(path, stringifyJSONFile(m));
+        }
+      });
+      lastWrite = write.catch(() => undefined);
+      return write;
+    };
+    return Object.freeze({
+      get: async (key: string) => (await load()).get(key) ?? null,
+      set: (key: string, value: string) => modify(m => (m.set(key, value), true)),
+      remove: (key: string) => modify(m => m.delete(key)),
+      keys: async () => Array.from((await load()).keys()),
+    });
+  }
+
+  const { path: dir } = options;
+  return Object.freeze({
+    get: (key: string) => readOrNull(joinPath(dir, escapeKey(key))),
+    set: (key: string, value: string) => writeAtomically(joinPath(dir, escapeKey(key)), value),
+    remove: async (key: string) => {
+      try {
+        await fs.unlink(joinPath(dir, escapeKey(key)));
+      } catch (e) {
+        if (!isNotFound(e)) {
+          throw e;
+        }
+      }
+    },
+    keys: async () => {
+      let names: string[];
+      try {
+        names = await fs.readdir(dir);
+      } catch (e) {
+        if (isNotFound(e)) {
+          return [];
+        }
+        throw e;
+      }
+      return names.map(unescapeKey).filter((k): k is string => k !== null);
+    },
+  });
+};
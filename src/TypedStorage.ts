@@ -1,260 +1,2649 @@
-import { AsyncBaseStorage, BaseStorage } from './BaseStorage';
-import { Codec } from './Codec';
+import { AsyncBaseStorage, BaseStorage, BaseStorageChange, isEnumerable, isSubscribable } from './BaseStorage';
+import { Codec, codecs, CompressionOptions, VersionedCodec } from './Codec';
+import {
+  DecodeError,
+  EncodeError,
+  IntegrityError,
+  QuotaExceededError,
+  StorageBackendError,
+  StorageFailureReason,
+  TypedStorageError,
+  TypedStorageErrorContext,
+} from './Errors';
 
 /* auxiliary types / type functions for defining `TypedStorage` I/F */
-// An object consists of "key to `Codec` for its value".
+/**
+ * Spec of typed storage wrappers: an object consists of "key to `Codec` for its value".
+ *
+ * Keys can be *key patterns* containing placeholders `${string}` and `${number}` (e.g. `'draft:${string}'`),
+ * which specify the `Codec` for all keys that match the pattern (e.g. `'draft:1'`, `'draft:abc'`).
+ * Keys starting with the scope separator are reserved for scopes, and never treated as matching key patterns.
+ * Note that key patterns must be written in normal string literals, not in template literals.
+ */
 // `Codec<any>` means "some `Codec<T>`".
-type StorageCodecSpec = Record<string, Codec<any>>;
+export type StorageCodecSpec = Record<string, Codec<any>>;
 
-// Set of string keys in `Spec` (concrete type that satisfies `StorageCodecSpec`), i.e. set of available keys of the storage wrapper.
+// Set of string keys in `Spec` (concrete type that satisfies `StorageCodecSpec`), including key patterns as they are.
 // `keyof Spec` is inferred as `string | number | symbol` due to [a change in TS 2.9](https://www.typescriptlang.org/docs/handbook/release-notes/typescript-2-9.html#support-number-and-symbol-named-properties-with-keyof-and-mapped-types),
 // so excluding `number | symbol` possibility here.
-type StorageKeys<Spec extends StorageCodecSpec> = Extract<keyof Spec, string>;
+type SpecKeys<Spec extends StorageCodecSpec> = Extract<keyof Spec, string>;
+
+// Converts the key pattern `P` (e.g. `'draft:${string}'`) to the template literal type of keys that match it (e.g. `draft:${string}`).
+// Keys without placeholders are left as they are.
+type KeysOfPattern<P extends string> = P extends `${infer H}\${string}${infer T}`
+  ? `${KeysOfPattern<H>}${string}${KeysOfPattern<T>}`
+  : P extends `${infer H}\${number}${infer T}`
+  ? `${KeysOfPattern<H>}${number}${KeysOfPattern<T>}`
+  : P;
+
+// Key in `Spec` that specifies the `Codec` for the key `K`: `K` itself if `Spec` has it, otherwise key patterns that `K` matches.
+type SpecKeyOf<Spec extends StorageCodecSpec, K extends string> = K extends SpecKeys<Spec>
+  ? K
+  : { [P in SpecKeys<Spec>]: K extends KeysOfPattern<P> ? P : never }[SpecKeys<Spec>];
+
+/**
+ * Set of available keys of the storage wrapper that has `Spec`. Key patterns in `Spec` are converted to template literal types.
+ */
+export type StorageKeys<Spec extends StorageCodecSpec> = KeysOfPattern<SpecKeys<Spec>>;
 
-// Type of value for specific key `K` in a storage that has `Spec`.
-type StorageValTypeOf<Spec extends StorageCodecSpec, K extends StorageKeys<Spec>> = Spec[K] extends Codec<infer T>
+/**
+ * Type of value for specific key `K` in a storage that has `Spec`.
+ */
+export type StorageValTypeOf<Spec extends StorageCodecSpec, K extends StorageKeys<Spec>> = Spec[SpecKeyOf<
+  Spec,
+  K
+>] extends Codec<infer T>
   ? T
   : never;
 
+// Partial record of keys in `Spec` and their values.
+type StorageValues<Spec extends StorageCodecSpec> = {
+  [K in StorageKeys<Spec>]?: StorageValTypeOf<Spec, K>;
+};
+
+// Set of keys in `Spec` whose `Codec` carries a default value (see `withDefault`).
+type KeysWithDefault<Spec extends StorageCodecSpec> = {
+  [P in SpecKeys<Spec>]: Spec[P] extends { defaultValue: unknown } ? KeysOfPattern<P> : never;
+}[SpecKeys<Spec>];
+
 /**
- * Interface of strongly typed storage wrapper.
+ * Type of the result of `get` for specific key `K` in a storage that has `Spec`. It is non-null if the key has a default value.
  */
-type TypedStorage<Spec extends StorageCodecSpec> = {
-  /**
-   * Retrieves a value associated with the `key` from the underlying storage (with decoding).
-   *
-   * Returns `null` if value is not associated.
-   */
-  get<K extends StorageKeys<Spec>>(key: K): StorageValTypeOf<Spec, K> | null;
+export type StorageGetResultOf<
+  Spec extends StorageCodecSpec,
+  K extends StorageKeys<Spec>
+> = K extends KeysWithDefault<Spec> ? StorageValTypeOf<Spec, K> : StorageValTypeOf<Spec, K> | null;
 
-  /**
-   * Associates the `key` with the `value` and saves the key-value pair in the underlying storage (with encoding).
-   */
-  set<K extends StorageKeys<Spec>>(key: K, value: StorageValTypeOf<Spec, K>): void;
+// derives a codec that has additional `props` from the `codec`. the derived codec inherits the `codec` via the prototype chain
+// rather than copying its own properties, so that methods of class-based codecs are also available.
+const extendCodec = <C extends Codec<any>, P extends object>(codec: C, props: P): C & P => {
+  return Object.freeze(Object.assign(Object.create(codec) as C, props));
+};
 
+/**
+ * {@linkcode Codec} accompanied by the default value for a key of storage.
+ */
+export type CodecWithDefault<T> = Codec<T> & {
   /**
-   * Removes the `key` and the value with it from the underlying storage.
+   * Value that typed storage wrappers return when no value is associated with the key.
    */
-  remove(key: StorageKeys<Spec>): void;
+  readonly defaultValue: T;
 };
 
 /**
- * Options for `TypedStorage`.
+ * Attaches the default value to the `codec`, for use as an entry of storage spec.
+ *
+ * `get` of typed storage wrappers returns the `defaultValue` instead of `null` for the key specified with the `Codec` returned from this.
+ *
+ * @example
+ * ```
+ * const storage = createTypedStorage({
+ *   count: withDefault(codecs.number, 0),
+ *   name: codecs.string,
+ * }, { base: baseStorages.webLocal });
+ *
+ * storage.get('count'); // number (0 if not stored yet)
+ * storage.get('name');  // string | null
+ * ```
+ *
+ * @param codec `Codec` for the value.
+ * @param defaultValue the default value.
  */
-export interface TypedStorageOptions {
-  /**
-   * {@linkcode BaseStorage} implementation used by typed wrapper.
-   */
-  base: BaseStorage;
+export const withDefault = <C extends Codec<any>>(
+  codec: C,
+  defaultValue: C extends Codec<infer T> ? T : never
+): C & CodecWithDefault<C extends Codec<infer T> ? T : never> => {
+  return extendCodec(codec, { defaultValue });
+};
+
+const hasDefault = <T>(codec: Codec<T>): codec is CodecWithDefault<T> => {
+  return 'defaultValue' in codec;
+};
 
+/**
+ * {@linkcode Codec} accompanied by the default TTL (time-to-live) for values of a key of storage.
+ */
+export type CodecWithTTL<T> = Codec<T> & {
   /**
-   * If this option is set, every key will be prefixed by `${keyPrefix}` *internally* (in BaseStorage level).
-   *
-   * Can be used for namespacing a *singleton* storage (e.g. localStorage/sessionStorage).
+   * Time in milliseconds for which values are valid after set.
    */
-  keyPrefix?: string;
-}
+  readonly ttl: number;
+};
 
 /**
- * Creates a `TypedStorage`, typed storage wrapper.
+ * Attaches the default TTL (time-to-live) of values to the `codec`, for use as an entry of storage spec.
+ *
+ * Values for the key specified with the `Codec` returned from this expire after `ttl` milliseconds have passed since set.
+ * Typed storage wrappers treat expired values as not associated, and remove them from the underlying storage lazily.
  *
  * @example
  * ```
- * import { createTypedStorage, codecs, baseStorages } from 'ts-souko';
- *
- * // create typed wrapper for LocalStorage
  * const storage = createTypedStorage({
- *   id: codecs.number,
- *   name: codecs.string,
- * }, { base: baseStorages.webLocal } );
- *
- * storage.set('id', 100);       // OK
- * storage.set('name', 'Alice'); // OK
- * storage.set('id', 'nan');     // type error!
- * storage.set('name', 0);       // type error!
+ *   // cached response expires after 1 hour
+ *   cachedResponse: withTTL(codecs.jsonWithZod(Response), 60 * 60 * 1000),
+ * }, { base: baseStorages.webLocal });
  *
- * storage.get('id');   // number | null
- * storage.get('name'); // string | null
+ * storage.set('cachedResponse', res);
+ * storage.set('cachedResponse', res, { ttl: 10 * 1000 }); // TTL can be overridden per set
  * ```
  *
- * @param spec an object consists of "key to `Codec` for its value" pairs, specifies value's type for each key.
- * @param options options for `TypedStorage`.
+ * @param codec `Codec` for the value.
+ * @param ttl time in milliseconds for which values are valid after set. Must be a non-negative number or `Infinity`.
  */
-export const createTypedStorage = <Spec extends StorageCodecSpec>(
-  spec: Spec,
-  { base, keyPrefix: prefix }: TypedStorageOptions
-): TypedStorage<Spec> => {
-  const keyToCodec = spec;
-  const baseStrg = base;
+export const withTTL = <C extends Codec<any>>(
+  codec: C,
+  ttl: number
+): C & CodecWithTTL<C extends Codec<infer T> ? T : never> => {
+  assertValidTTL(ttl);
+  return extendCodec(codec, { ttl });
+};
 
-  const prefixed = (key: string) => {
-    if (prefix === undefined) {
-      return key;
-    }
-    return `${prefix}${key}`;
-  };
+const assertValidTTL = (ttl: number) => {
+  if (!(ttl >= 0)) {
+    throw Error(`invalid TTL: ${ttl} (must be a non-negative number or Infinity)`);
+  }
+};
 
-  return Object.freeze({
-    get<K extends StorageKeys<Spec>>(key: K): StorageValTypeOf<Spec, K> | null {
-      try {
-        const rawVal = baseStrg.get(prefixed(key));
-        if (rawVal === null) {
-          return null;
-        }
-        const codec = keyToCodec[key] as Codec<StorageValTypeOf<Spec, K>>;
-        return codec.decode(rawVal);
-      } catch (e) {
-        throw errorWithCause(`failed to get value from storage (key: '${key}')`, e);
-      }
-    },
-    set<K extends StorageKeys<Spec>>(key: K, value: StorageValTypeOf<Spec, K>): void {
-      try {
-        const codec = keyToCodec[key] as Codec<StorageValTypeOf<Spec, K>>;
-        const encoded = codec.encode(value);
-        baseStrg.set(prefixed(key), encoded);
-      } catch (e) {
-        throw errorWithCause(`failed to set value from storage (key: '${key}')`, e);
-      }
-    },
-    remove(key: StorageKeys<Spec>): void {
-      try {
-        baseStrg.remove(prefixed(key));
-      } catch (e) {
-        throw errorWithCause(`failed to remove value from storage (key : '${key}')`, e);
-      }
-    },
-  });
+const hasTTL = <T>(codec: Codec<T>): codec is CodecWithTTL<T> => {
+  return 'ttl' in codec;
 };
 
 /**
- * Interface of asynchronous strongly typed storage wrapper.
+ * {@linkcode Codec} accompanied by the priority of values for a key of storage, used for eviction.
  */
-type AsyncTypedStorage<Spec extends StorageCodecSpec> = {
+export type CodecWithPriority<T> = Codec<T> & {
   /**
-   * Retrieves a value associated with the `key` from the underlying storage (with decoding) asynchronously.
+   * Priority of values. Values with lower priority are evicted earlier under the `'priority'` eviction policy.
+   */
+  readonly priority: number;
+};
+
+/**
+ * Attaches the priority of values to the `codec`, for use as an entry of storage spec.
+ *
+ * Under the `'priority'` eviction policy (see {@linkcode QuotaOptions}), values with lower priority are evicted earlier.
+ * Keys without priority have the priority of `0`.
+ *
+ * @example
+ * ```
+ * const storage = createTypedStorage({
+ *   draft: withPriority(codecs.string, 10),
+ *   cachedResponse: withPriority(codecs.jsonWithZod(Response), -10), // evicted first
+ * }, { base: baseStorages.webLocal, quota: { policy: 'priority' } });
+ * ```
+ *
+ * @param codec `Codec` for the value.
+ * @param priority priority of values for the key.
+ */
+export const withPriority = <C extends Codec<any>>(
+  codec: C,
+  priority: number
+): C & CodecWithPriority<C extends Codec<infer T> ? T : never> => {
+  return extendCodec(codec, { priority });
+};
+
+const hasPriority = <T>(codec: Codec<T>): codec is CodecWithPriority<T> => {
+  return 'priority' in codec;
+};
+
+/**
+ * Options for setting a value to typed storage wrappers.
+ */
+export interface SetOptions {
+  /**
+   * Time in milliseconds for which the value is valid. Overrides the TTL for the key (see {@linkcode withTTL}).
    *
-   * Returns `null` if value is not associated.
+   * Must be a non-negative number. Specify `Infinity` to make the value never expire.
    */
-  get<K extends StorageKeys<Spec>>(key: K): Promise<StorageValTypeOf<Spec, K> | null>;
+  ttl?: number;
+}
 
+/**
+ * Change of the value for a key in typed storage wrappers.
+ */
+export interface StorageValueChange<K extends string, T> {
   /**
-   * Associates the `key` with the `value` and saves the key-value pair in the underlying storage (with encoding) asynchronously.
+   * Key whose value has changed.
    */
-  set<K extends StorageKeys<Spec>>(key: K, value: StorageValTypeOf<Spec, K>): Promise<void>;
+  key: K;
 
   /**
-   * Removes the `key` and the value with it from the underlying storage asynchronously.
+   * Value before the change. `null` if value was not associated (or the previous value was not decodable).
    */
-  remove(key: StorageKeys<Spec>): Promise<void>;
+  oldValue: T | null;
+
+  /**
+   * Value after the change. `null` if the value has been removed.
+   */
+  newValue: T | null;
+
+  /**
+   * `true` if the change has been made from the outside of the typed storage wrapper (e.g. from other browser tabs).
+   */
+  external: boolean;
+}
+
+/**
+ * Options for subscribing changes of values in typed storage wrappers.
+ */
+export interface SubscribeOptions {
+  /**
+   * Called when an error is occurred on notifying a change, e.g. a value written from the outside is not decodable or the listener throws.
+   *
+   * Errors are rethrown asynchronously (i.e. surface as uncaught errors) if this is not specified.
+   */
+  onError?: (err: unknown) => void;
+}
+
+// Type of listeners of changes for specific key `K`.
+type StorageChangeListenerOf<Spec extends StorageCodecSpec, K extends StorageKeys<Spec>> = (
+  change: StorageValueChange<K, StorageValTypeOf<Spec, K>>
+) => void;
+
+/**
+ * Transaction on typed storage wrappers, passed to the callback of `transaction`.
+ * Operations on it are recorded, and applied to the storage all together after the callback returns.
+ */
+export type StorageTransaction<Spec extends StorageCodecSpec> = {
+  /**
+   * Associates the `key` with the `value` in the transaction.
+   */
+  set<K extends StorageKeys<Spec>>(key: K, value: StorageValTypeOf<Spec, K>, options?: SetOptions): void;
+
+  /**
+   * Removes the `key` and the value with it in the transaction.
+   */
+  remove(key: StorageKeys<Spec>): void;
 };
 
 /**
- * Options for `TypedStorage`.
+ * Observer of values of {@linkcode StorageAtom}, in the style of the TC39 Observable proposal.
  */
-export interface AsyncTypedStorageOptions {
+export interface StorageObserver<T> {
   /**
-   * {@linkcode AsyncBaseStorage} implementation used by typed wrapper.
+   * Called with the current value on subscription, then with the new value every time the value is changed.
    */
-  base: AsyncBaseStorage;
+  next?(value: T): void;
 
   /**
-   * If this option is set, every key will be prefixed by `${keyPrefix}` *internally* (in BaseStorage level).
-   *
-   * Can be used for namespacing *singleton* storage (e.g. localStorage/sessionStorage).
+   * Called when an error is occurred, e.g. a value written from the outside is not decodable.
+   * Unlike Observables in general, the subscription continues after errors.
    */
-  keyPrefix?: string;
+  error?(err: unknown): void;
+
+  /**
+   * Never called, since values in storages never complete.
+   */
+  complete?(): void;
 }
 
 /**
- * Creates a `AsyncTypedStorage`, typed wrapper for asynchronous storage.
- *
- * @example
- * ```
- * import { createAsyncTypedStorage, codecs, AsyncBaseStorage } from 'ts-souko';
- *
- * // async string value storage
- * const asyncBase: AsyncBaseStorage = ...;
- *
- * // create typed wrapper for `asyncBase`
- * const storage = createAsyncTypedStorage({
- *   id: codecs.number,
- *   name: codecs.string,
- * }, { base: asyncBase } );
- *
- * async () => {
- *   await storage.set('id', 100);       // OK
- *   await storage.set('name', 'Alice'); // OK
- *   await storage.set('id', 'nan');     // type error!
- *   await storage.set('name', 0);       // type error!
- *
- *   const i = await storage.get('id');   // number | null
- *   const n = await storage.get('name'); // string | null
- * }
- * ```
+ * Subscription of {@linkcode StorageAtom}. Call it (like Svelte stores) or call `unsubscribe` (like Observables) to stop subscribing.
+ */
+export type StorageAtomSubscription = (() => void) & { unsubscribe(): void };
+
+/**
+ * Reactive store of the value for a key in the typed storage wrapper, returned from `atom` of {@linkcode TypedStorage}.
  *
- * @param spec an object consists of "key to `Codec` for its value" pairs, specifies value's type for each key.
- * @param options options for `AsyncTypedStorage`.
+ * It satisfies the Svelte store contract, and it is also an Observable in the style of the TC39 proposal,
+ * so it can be used with libraries that consume Observables (e.g. `from(atom)` of RxJS).
  */
-export const createAsyncTypedStorage = <Spec extends StorageCodecSpec>(
-  spec: Spec,
-  { base, keyPrefix: prefix }: AsyncTypedStorageOptions
-): AsyncTypedStorage<Spec> => {
-  const keyToCodec = spec;
-  const baseStrg = base;
+export interface StorageAtom<T, V = T> {
+  /**
+   * Retrieves the current value. Same as `get` of the storage.
+   */
+  get(): T;
 
-  const prefixed = (key: string) => {
-    if (prefix === undefined) {
-      return key;
-    }
-    return `${prefix}${key}`;
-  };
+  /**
+   * Sets the `value`. Same as `set` of the storage.
+   */
+  set(value: V, options?: SetOptions): void;
 
-  return Object.freeze({
-    async get<K extends StorageKeys<Spec>>(key: K): Promise<StorageValTypeOf<Spec, K> | null> {
-      try {
-        const rawVal = await baseStrg.get(prefixed(key));
-        if (rawVal === null) {
-          return null;
-        }
-        const codec = keyToCodec[key] as Codec<StorageValTypeOf<Spec, K>>;
-        return codec.decode(rawVal);
-      } catch (e) {
-        throw errorWithCause(`failed to get value from storage (key: '${key}')`, e);
-      }
-    },
-    async set<K extends StorageKeys<Spec>>(key: K, value: StorageValTypeOf<Spec, K>): Promise<void> {
-      try {
-        const codec = keyToCodec[key] as Codec<StorageValTypeOf<Spec, K>>;
-        const encoded = codec.encode(value);
-        await baseStrg.set(prefixed(key), encoded);
-      } catch (e) {
-        throw errorWithCause(`failed to set value from storage (key: '${key}')`, e);
-      }
-    },
-    async remove(key: StorageKeys<Spec>): Promise<void> {
-      try {
-        await baseStrg.remove(prefixed(key));
-      } catch (e) {
-        throw errorWithCause(`failed to remove value from storage (key : '${key}')`, e);
-      }
-    },
-  });
-};
+  /**
+   * Sets the value computed from the current value by `fn`.
+   */
+  update(fn: (value: T) => V, options?: SetOptions): void;
 
-/* error utils */
-const errorWithCause = (msg: string, errCause: unknown): Error => {
-  if (hasStringMessage(errCause)) {
-    return Error(`${msg}: ${errCause.message}`);
-  }
-  return Error(msg);
-};
+  /**
+   * Removes the value. Same as `remove` of the storage.
+   */
+  remove(): void;
 
-const hasStringMessage = (v: unknown): v is { message: string } => {
-  if (typeof v !== 'object' || v === null) {
-    return false;
-  }
-  if (!Object.keys(v).includes('message')) {
-    return false;
+  /**
+   * Calls the `observer` with the current value immediately, then calls it with the new value every time the value is changed,
+   * including changes made from the outside if the underlying storage is subscribable.
+   */
+  subscribe(observer: ((value: T) => void) | StorageObserver<T>): StorageAtomSubscription;
+
+  /**
+   * Returns the atom itself, for interoperability with Observable libraries.
+   */
+  '@@observable'(): StorageAtom<T, V>;
+}
+
+/**
+ * Options for `inspect` of typed storage wrappers.
+ */
+export interface InspectOptions {
+  /**
+   * If `true`, removes corrupt entries (entries whose values are not decodable) after inspection. Defaults to `false`.
+   */
+  repair?: boolean;
+}
+
+/**
+ * Report of the entry for a key in the spec, in {@linkcode StorageReport}.
+ *
+ * - `'ok'`: the value is decodable
+ * - `'missing'`: value is not associated
+ * - `'expired'`: the value has expired (see {@linkcode withTTL})
+ * - `'corrupt'`: the value is not decodable. `repaired` is `true` if the entry has been removed by the repair mode
+ */
+export type StorageEntryReport<K extends string> = {
+  key: K;
+  physicalKey: string;
+} & (
+  | { status: 'ok'; size: number }
+  | { status: 'missing' }
+  | { status: 'expired'; size: number }
+  | { status: 'corrupt'; size: number; error: DecodeError; repaired: boolean }
+);
+
+/**
+ * Report of the contents of a storage, returned from `inspect` of typed storage wrappers.
+ * Sizes of entries are computed as UTF-16 byte length of keys and values, like `usage`.
+ */
+export interface StorageReport<K extends string> {
+  /**
+   * Reports of entries for keys in the spec, including keys that match key patterns.
+   */
+  entries: StorageEntryReport<K>[];
+
+  /**
+   * Entries under the `keyPrefix` that are not for keys in the spec, except entries of scopes. Always empty if the underlying storage is not enumerable.
+   */
+  unknownEntries: { physicalKey: string; size: number }[];
+
+  /**
+   * Total size of all entries, including unknown ones. Sizes are ones before repairing.
+   */
+  totalSize: number;
+}
+
+/**
+ * Interface of strongly typed storage wrapper.
+ */
+export type TypedStorage<Spec extends StorageCodecSpec> = {
+  /**
+   * Retrieves a value associated with the `key` from the underlying storage (with decoding).
+   *
+   * Returns `null` if value is not associated, or the default value if the key has one (see {@linkcode withDefault}).
+   */
+  get<K extends StorageKeys<Spec>>(key: K): StorageGetResultOf<Spec, K>;
+
+  /**
+   * Retrieves a value associated with the `key` like `get`, but returns the `fallback` if value is not associated.
+   */
+  getOrDefault<K extends StorageKeys<Spec>>(key: K, fallback: StorageValTypeOf<Spec, K>): StorageValTypeOf<Spec, K>;
+
+  /**
+   * Associates the `key` with the `value` and saves the key-value pair in the underlying storage (with encoding).
+   */
+  set<K extends StorageKeys<Spec>>(key: K, value: StorageValTypeOf<Spec, K>, options?: SetOptions): void;
+
+  /**
+   * Removes the `key` and the value with it from the underlying storage.
+   */
+  remove(key: StorageKeys<Spec>): void;
+
+  /**
+   * Non-throwing version of `get`. Returns the retrieved value, or the reason of the failure.
+   */
+  safeGet<K extends StorageKeys<Spec>>(key: K): StorageResult<StorageGetResultOf<Spec, K>>;
+
+  /**
+   * Non-throwing version of `set`. Returns whether the value is saved successfully, or the reason of the failure.
+   */
+  safeSet<K extends StorageKeys<Spec>>(
+    key: K,
+    value: StorageValTypeOf<Spec, K>,
+    options?: SetOptions
+  ): StorageResult<void>;
+
+  /**
+   * Non-throwing version of `remove`. Returns whether the value is removed successfully, or the reason of the failure.
+   */
+  safeRemove(key: StorageKeys<Spec>): StorageResult<void>;
+
+  /**
+   * Resets the value for the `key` to its default value, by removing the stored value.
+   */
+  reset(key: KeysWithDefault<Spec>): void;
+
+  /**
+   * Returns the default value for the `key` (see {@linkcode withDefault}), or `null` if the key has none.
+   * Doesn't access the underlying storage, so it can be used where the storage is unavailable (e.g. server-side rendering).
+   */
+  defaultValueOf<K extends StorageKeys<Spec>>(key: K): StorageGetResultOf<Spec, K>;
+
+  /**
+   * Checks if a value is associated with the `key`.
+   */
+  has(key: StorageKeys<Spec>): boolean;
+
+  /**
+   * Returns all keys with which values are associated. If the `pattern` (a key or a key pattern in the spec) is specified,
+   * returns only keys that match it.
+   *
+   * Enumerates keys under the `keyPrefix` if the underlying storage is enumerable (see {@linkcode EnumerableBaseStorage}),
+   * otherwise checks every key in the spec except key patterns.
+   *
+   * @example
+   * ```
+   * const storage = createTypedStorage({ 'draft:${string}': codecs.string }, { base: baseStorages.webLocal });
+   * storage.keys('draft:${string}'); // e.g. ['draft:1', 'draft:2']
+   * ```
+   */
+  keys<P extends SpecKeys<Spec> = SpecKeys<Spec>>(pattern?: P): KeysOfPattern<P>[];
+
+  /**
+   * Returns the total size of entries under the `keyPrefix` in bytes, computed as UTF-16 byte length of keys and values.
+   *
+   * Counts all entries under the `keyPrefix` if the underlying storage is enumerable, otherwise counts entries of keys in the spec.
+   * Entries of scopes (see `scope`) and the entry of metadata for quota management are not counted.
+   */
+  usage(): number;
+
+  /**
+   * Inspects contents of the storage against the spec: tries to decode the value for every key in the spec under the `keyPrefix`,
+   * and reports the status and the size of each entry, along with unknown entries. See {@linkcode StorageReport}.
+   *
+   * With `{ repair: true }`, corrupt entries are removed.
+   *
+   * @example
+   * ```
+   * const report = storage.inspect({ repair: true });
+   * report.entries.filter(e => e.status === 'corrupt').forEach(e => console.log(e.key, e.error.raw));
+   * ```
+   */
+  inspect(options?: InspectOptions): StorageReport<StorageKeys<Spec>>;
+
+  /**
+   * Removes all values in the storage.
+   *
+   * If `keyPrefix` is set and the underlying storage is enumerable, removes all keys under the `keyPrefix` including ones not in the spec.
+   * Otherwise, removes all keys in the spec, and keys that match key patterns if the underlying storage is enumerable.
+   * Access records for quota management are also discarded.
+   */
+  clear(): void;
+
+  /**
+   * Retrieves all values in the storage, as a record of keys and values.
+   *
+   * Keys with which values are not associated are absent in the result.
+   */
+  getAll(): StorageValues<Spec>;
+
+  /**
+   * Associates each key in the `values` with its value, like `set`.
+   */
+  setMany(values: StorageValues<Spec>, options?: SetOptions): void;
+
+  /**
+   * Applies operations made on the transaction `tx` in the callback `fn` atomically.
+   *
+   * All values are encoded before any writes, so failures of encoding abort the transaction without changing the storage.
+   * If the underlying storage fails in the middle of writes, values written so far are rolled back to the previous ones.
+   *
+   * @example
+   * ```
+   * storage.transaction(tx => {
+   *   tx.set('theme', 'dark');
+   *   tx.set('fontSize', 16);
+   *   tx.remove('layout');
+   * });
+   * ```
+   */
+  transaction(fn: (tx: StorageTransaction<Spec>) => void): void;
+
+  /**
+   * Registers the `listener` that is called every time the value for the `key` is changed.
+   *
+   * Changes made via this wrapper are always notified. Changes made from the outside (e.g. from other browser tabs) are also notified
+   * if the underlying storage is subscribable (see {@linkcode SubscribableBaseStorage}).
+   *
+   * Returns a function to unregister the `listener`.
+   */
+  subscribe<K extends StorageKeys<Spec>>(
+    key: K,
+    listener: StorageChangeListenerOf<Spec, K>,
+    options?: SubscribeOptions
+  ): () => void;
+
+  /**
+   * Calls the `listener` with the current value for the `key` immediately, then calls it with the new value every time the value is changed.
+   *
+   * The value passed to the `listener` is the same as the result of `get`.
+   *
+   * Returns a function to stop watching.
+   */
+  watch<K extends StorageKeys<Spec>>(
+    key: K,
+    listener: (value: StorageGetResultOf<Spec, K>) => void,
+    options?: SubscribeOptions
+  ): () => void;
+
+  /**
+   * Returns a reactive store of the value for the `key` ({@linkcode StorageAtom}), which can be used as a Svelte store or an Observable.
+   *
+   * Errors on notifying changes are reported to `onError` in `options`, unless the observer has its own `error`.
+   *
+   * @example
+   * ```
+   * const theme = storage.atom('theme');
+   *
+   * const subscription = theme.subscribe(t => document.body.classList.toggle('dark', t === 'dark'));
+   * theme.set('dark');
+   * subscription.unsubscribe();
+   * ```
+   */
+  atom<K extends StorageKeys<Spec>>(
+    key: K,
+    options?: SubscribeOptions
+  ): StorageAtom<StorageGetResultOf<Spec, K>, StorageValTypeOf<Spec, K>>;
+
+  /**
+   * Returns a typed storage wrapper for the scope `name` = `value` in this storage, which shares the spec, the options and the underlying storage.
+   *
+   * Keys in the scope are prefixed by `${keyPrefix}${scopeSeparator}${name}${scopeSeparator}${value}${scopeSeparator}`,
+   * where `name` and `value` are escaped so that keys in different scopes never collide.
+   * The leading separator marks keys of scopes, so they never collide with keys of this storage either.
+   * Scopes can be nested. Entries of nested scopes are excluded from `keys`, `getAll`, `usage` and `inspect` of a scope,
+   * while `clear` of a scope removes them as well.
+   *
+   * @example
+   * ```
+   * const workspace = storage.scope('user', userId).scope('workspace', workspaceId);
+   * workspace.set('draft', text); // key in the underlying storage: `:user:42::workspace:7:draft`
+   * ```
+   */
+  scope(name: string, value: string | number): TypedStorage<Spec>;
+};
+
+/**
+ * Policy of treating stored values that are not decodable by `Codec`s. See {@linkcode TypedStorageOptions.onDecodeError}.
+ */
+export type DecodeErrorPolicy = 'throw' | 'ignore' | 'remove';
+
+/**
+ * Policy of choosing values to evict when the storage runs out of space. See {@linkcode QuotaOptions.policy}.
+ */
+export type EvictionPolicy = 'lru' | 'oldest' | 'priority';
+
+/**
+ * Options for quota management of typed storage wrappers.
+ *
+ * When a value doesn't fit in the `budget`, or the underlying storage reports that its quota is exceeded on setting a value,
+ * other values of keys in the spec are evicted according to the `policy` to make space, then setting the value is retried.
+ * If the value doesn't fit even after evicting all other values, {@linkcode QuotaExceededError} is thrown.
+ */
+export interface QuotaOptions {
+  /**
+   * Maximum total size of entries under the `keyPrefix`, in bytes. Sizes of entries are computed as UTF-16 byte length of keys and values.
+   * Entries of scopes (see `scope`) are not counted, since each scope manages its own budget.
+   *
+   * The usage is tracked in memory after the first write, and entries are scanned again only when a value seems not to fit in the budget
+   * (or `usage()` is called). So values written by others (e.g. other tabs) may not be counted until then.
+   *
+   * If this is not set, values are evicted only when the underlying storage reports that its quota is exceeded.
+   */
+  budget?: number;
+
+  /**
+   * Policy of choosing values to evict. Defaults to `'lru'`.
+   *
+   * - `'lru'`: evicts least recently used (got or set) values first
+   * - `'oldest'`: evicts least recently set values first
+   * - `'priority'`: evicts values with lower priority (see {@linkcode withPriority}) first. Ties are broken by `'lru'`.
+   *
+   * Values without records of accesses (e.g. values set before enabling quota management) are treated as the least recently used/set.
+   */
+  policy?: EvictionPolicy;
+
+  /**
+   * Key of the entry in which metadata for eviction (times of accesses to values) is stored. Prefixed by `keyPrefix` like other keys.
+   * Must not be a key in the spec. Defaults to `'__quota__'`.
+   *
+   * The entry of metadata is not counted in the `budget`. Times of retrievals are recorded in memory, and saved on writes.
+   */
+  metadataKey?: string;
+
+  /**
+   * Called with the key every time a value is evicted.
+   *
+   * Errors thrown from this are rethrown asynchronously (i.e. surface as uncaught errors), so that they never interrupt writes.
+   */
+  onEvict?: (key: string) => void;
+}
+
+/**
+ * Options for `TypedStorage`.
+ */
+export interface TypedStorageOptions {
+  /**
+   * {@linkcode BaseStorage} implementation used by typed wrapper.
+   */
+  base: BaseStorage;
+
+  /**
+   * If this option is set, every key will be prefixed by `${keyPrefix}` *internally* (in BaseStorage level).
+   *
+   * Can be used for namespacing a *singleton* storage (e.g. localStorage/sessionStorage).
+   */
+  keyPrefix?: string;
+
+  /**
+   * Separator of segments in key prefixes composed by `scope`. Must be non-empty and must not contain `%`. Defaults to `':'`.
+   *
+   * Keys starting with the separator are reserved for scopes, so keys in the spec must not start with it.
+   */
+  scopeSeparator?: string;
+
+  /**
+   * Function that returns the current time in milliseconds, used to determine expiration of values. Defaults to `Date.now`.
+   *
+   * Can be used for controlling time in tests.
+   */
+  now?: () => number;
+
+  /**
+   * How to treat stored values that are not decodable by `Codec`s on retrieval. Defaults to `'throw'`.
+   *
+   * - `'throw'`: throws an error
+   * - `'ignore'`: treats them as not associated
+   * - `'remove'`: treats them as not associated, and removes them from the underlying storage
+   */
+  onDecodeError?: DecodeErrorPolicy;
+
+  /**
+   * If this option is set, encoded values are compressed (if they are large enough) before stored. Can be `true` or {@linkcode CompressionOptions}.
+   *
+   * Values stored without compression (e.g. values stored before enabling this option) are still readable.
+   */
+  compression?: boolean | CompressionOptions;
+  /**
+   * If this option is set, the typed storage wrapper manages space of the storage, evicting values as needed. See {@linkcode QuotaOptions}.
+   */
+  quota?: QuotaOptions;
+}
+
+/**
+ * Creates a `TypedStorage`, typed storage wrapper.
+ *
+ * @example
+ * ```
+ * import { createTypedStorage, codecs, baseStorages } from 'ts-souko';
+ *
+ * // create typed wrapper for LocalStorage
+ * const storage = createTypedStorage({
+ *   id: codecs.number,
+ *   name: codecs.string,
+ * }, { base: baseStorages.webLocal } );
+ *
+ * storage.set('id', 100);       // OK
+ * storage.set('name', 'Alice'); // OK
+ * storage.set('id', 'nan');     // type error!
+ * storage.set('name', 0);       // type error!
+ *
+ * storage.get('id');   // number | null
+ * storage.get('name'); // string | null
+ * ```
+ *
+ * @param spec an object consists of "key to `Codec` for its value" pairs, specifies value's type for each key.
+ * @param options options for `TypedStorage`.
+ */
+export const createTypedStorage = <Spec extends StorageCodecSpec>(
+  spec: Spec,
+  options: TypedStorageOptions
+): TypedStorage<Spec> => {
+  const { base, keyPrefix: prefix, now = Date.now, onDecodeError = 'throw', compression = false, quota } = options;
+  const scopeSep = options.scopeSeparator ?? DEFAULT_SCOPE_SEPARATOR;
+  assertValidScopeSeparator(spec, scopeSep);
+  const keyToCodec = spec;
+  const baseStrg = base;
+  const serializer = createSerializer(keyToCodec, now, compressionLayerOf(compression));
+
+  // keys of scopes are rejected even if they match key patterns, so that they are never accessed from this storage.
+  const prefixed = (key: string) => {
+    assertNotScopeKey(scopeSep, key);
+    if (prefix === undefined) {
+      return key;
+    }
+    return `${prefix}${key}`;
+  };
+  const keyCtx = (key: string): TypedStorageErrorContext => ({ key, physicalKey: prefixed(key) });
+  const quotaMgr = quotaManagerOf(keyToCodec, quota, prefixed, now);
+
+  // retrieves the value for the `key`. if value is not associated, returns the result of `onMissing` instead.
+  const getOr = <K extends StorageKeys<Spec>, D>(
+    key: K,
+    onMissing: (codec: Codec<StorageValTypeOf<Spec, K>>) => D
+  ): StorageValTypeOf<Spec, K> | D => {
+    const errMsg = `failed to get value from storage (key: '${key}')`;
+    const codec = codecOf(keyToCodec, key) as Codec<StorageValTypeOf<Spec, K>>;
+
+    const rawVal = backendOp(errMsg, keyCtx(key), () => baseStrg.get(prefixed(key)));
+    if (rawVal === null) {
+      return onMissing(codec);
+    }
+    let deserialized: Deserialized | null;
+    try {
+      deserialized = serializer.deserialize(key, rawVal);
+    } catch (e) {
+      if (onDecodeError === 'throw') {
+        throw new DecodeError(errMsg, { ...keyCtx(key), raw: rawVal, cause: e });
+      }
+      if (onDecodeError === 'remove') {
+        backendOp(errMsg, keyCtx(key), () => baseStrg.remove(prefixed(key)));
+      }
+      return onMissing(codec);
+    }
+    if (deserialized === null) {
+      // remove expired value lazily
+      backendOp(errMsg, keyCtx(key), () => baseStrg.remove(prefixed(key)));
+      return onMissing(codec);
+    }
+    const { value, expiresAt, writeBack } = deserialized;
+    if (writeBack) {
+      backendOp(errMsg, keyCtx(key), () => baseStrg.set(prefixed(key), serializer.serialize(key, value, expiresAt)));
+      quotaMgr?.untrack();
+    }
+    if (quotaMgr !== undefined) {
+      loadQuotaRecords(quotaMgr);
+      quotaMgr.touch(key);
+    }
+    return value as StorageValTypeOf<Spec, K>;
+  };
+
+  const listeners = createListenerRegistry(keyToCodec, serializer, prefix, listener =>
+    isSubscribable(baseStrg) ? baseStrg.subscribe(listener) : () => undefined
+  );
+
+  // entries under the `keyPrefix`, except entries of scopes and the entry of metadata for quota management.
+  const storedEntries = (): StoredEntry[] => {
+    const physKeys = isEnumerable(baseStrg)
+      ? backendOp('failed to enumerate keys in storage', {}, () => baseStrg.keys()).filter(k =>
+          isOwnPhysKey(prefix, scopeSep, k)
+        )
+      : specKeys(keyToCodec).map(prefixed);
+
+    const entries: StoredEntry[] = [];
+    for (const physKey of physKeys) {
+      if (physKey === quotaMgr?.metadataPhysKey) {
+        continue;
+      }
+      const raw = backendOp(`failed to get value from storage (key: '${physKey}')`, { physicalKey: physKey }, () =>
+        baseStrg.get(physKey)
+      );
+      if (raw !== null) {
+        entries.push(storedEntryOf(keyToCodec, prefix, physKey, raw));
+      }
+    }
+    return entries;
+  };
+
+  const loadQuotaRecords = (q: QuotaManager) => {
+    if (!q.isLoaded()) {
+      q.load(
+        backendOp('failed to load metadata for quota management', { physicalKey: q.metadataPhysKey }, () =>
+          baseStrg.get(q.metadataPhysKey)
+        )
+      );
+    }
+  };
+
+  // metadata is saved in best effort, since it only affects the order of eviction.
+  const saveQuotaRecords = (q: QuotaManager) => {
+    try {
+      baseStrg.set(q.metadataPhysKey, q.serialize());
+    } catch {
+      // ignore
+    }
+  };
+
+  // discards access records in memory along with the metadata, so that stale records are never saved back.
+  const resetQuotaRecords = (q: QuotaManager) => {
+    q.reset();
+    backendOp('failed to remove metadata for quota management', { physicalKey: q.metadataPhysKey }, () =>
+      baseStrg.remove(q.metadataPhysKey)
+    );
+  };
+
+  const notifyEviction = (q: QuotaManager, { key, raw }: EvictionCandidate) => {
+    listeners.notifyOwnChange(key, raw, null);
+    try {
+      q.onEvict?.(key);
+    } catch (e) {
+      reportError(e);
+    }
+  };
+
+  // removes the value of the `victim`. in transactions, evictions are recorded to `evicted` instead of being notified,
+  // so that they can be rolled back.
+  const evict = (q: QuotaManager, victim: EvictionCandidate, evicted?: EvictionCandidate[]) => {
+    const { key, physKey } = victim;
+    backendOp(`failed to evict value from storage (key: '${key}')`, { key, physicalKey: physKey }, () =>
+      baseStrg.remove(physKey)
+    );
+    q.forget(key);
+    q.trackSize(physKey, null);
+    if (evicted !== undefined) {
+      evicted.push(victim);
+      return;
+    }
+    notifyEviction(q, victim);
+  };
+
+  // writes the raw value for the `key`. if quota management is enabled, evicts other values to make space for the value as needed.
+  // values for `pinned` keys are never evicted.
+  const write = (
+    key: StorageKeys<Spec>,
+    raw: string,
+    errMsg: string,
+    pinned: string[] = [key],
+    evicted?: EvictionCandidate[]
+  ) => {
+    const physKey = prefixed(key);
+    if (quotaMgr === undefined) {
+      backendOp(errMsg, keyCtx(key), () => baseStrg.set(physKey, raw));
+      return;
+    }
+    loadQuotaRecords(quotaMgr);
+
+    // values to evict are determined on demand
+    let victims: EvictionCandidate[] | undefined;
+    const { budget } = quotaMgr;
+    const size = entrySize(physKey, raw);
+    const trackedUsage = quotaMgr.trackedUsage(physKey);
+    // stored entries are scanned only if the usage is not tracked yet, or the value seems not to fit in the budget,
+    // since the tracked usage doesn't reflect changes made by others
+    if (budget !== undefined && (trackedUsage === undefined || trackedUsage + size > budget)) {
+      const entries = storedEntries();
+      quotaMgr.track(entries);
+      victims = quotaMgr.evictionOrder(entries, pinned);
+
+      let usage = sumOfSizes(entries.filter(e => e.physKey !== physKey));
+      if (usage - sumOfSizes(victims) + size > budget) {
+        throw overBudgetError(errMsg, keyCtx(key), size, budget);
+      }
+      while (usage + size > budget) {
+        const victim = victims.shift() as EvictionCandidate;
+        evict(quotaMgr, victim, evicted);
+        usage -= victim.size;
+      }
+    }
+    for (;;) {
+      try {
+        baseStrg.set(physKey, raw);
+        break;
+      } catch (e) {
+        if (!isQuotaExceededError(e)) {
+          throw backendError(errMsg, keyCtx(key), e);
+        }
+        if (victims === undefined) {
+          victims = quotaMgr.evictionOrder(storedEntries(), pinned);
+        }
+        const victim = victims.shift();
+        if (victim === undefined) {
+          throw backendError(errMsg, keyCtx(key), e);
+        }
+        evict(quotaMgr, victim, evicted);
+      }
+    }
+    quotaMgr.trackSize(physKey, size);
+    quotaMgr.recordSet(key);
+    saveQuotaRecords(quotaMgr);
+  };
+
+  // serializes the value for the `key` into the raw value to be stored.
+  const encode = (key: string, value: unknown, options: SetOptions, errMsg: string): string => {
+    if (options.ttl !== undefined) {
+      assertValidTTL(options.ttl);
+    }
+    try {
+      return serializer.serialize(key, value, serializer.expiresAt(key, options.ttl));
+    } catch (e) {
+      throw new EncodeError(errMsg, { ...keyCtx(key), cause: e });
+    }
+  };
+
+  const set = <K extends StorageKeys<Spec>>(
+    key: K,
+    value: StorageValTypeOf<Spec, K>,
+    options: SetOptions = {}
+  ): void => {
+    const errMsg = `failed to set value from storage (key: '${key}')`;
+
+    const encoded = encode(key, value, options, errMsg);
+    const oldRaw = listeners.has(key) ? backendOp(errMsg, keyCtx(key), () => baseStrg.get(prefixed(key))) : null;
+    write(key, encoded, errMsg);
+    listeners.notifyOwnChange(key, oldRaw, value);
+  };
+
+  // removes the value for the `key`, and its access record if quota management is enabled.
+  const erase = (key: StorageKeys<Spec>, errMsg: string) => {
+    backendOp(errMsg, keyCtx(key), () => baseStrg.remove(prefixed(key)));
+    if (quotaMgr !== undefined) {
+      loadQuotaRecords(quotaMgr);
+      quotaMgr.forget(key);
+      quotaMgr.trackSize(prefixed(key), null);
+      saveQuotaRecords(quotaMgr);
+    }
+  };
+
+  const remove = (key: StorageKeys<Spec>): void => {
+    const errMsg = `failed to remove value from storage (key : '${key}')`;
+
+    const oldRaw = listeners.has(key) ? backendOp(errMsg, keyCtx(key), () => baseStrg.get(prefixed(key))) : null;
+    erase(key, errMsg);
+    listeners.notifyOwnChange(key, oldRaw, null);
+  };
+
+  const transaction = (fn: (tx: StorageTransaction<Spec>) => void): void => {
+    const errMsg = (key: string) => `failed to commit transaction (key: '${key}')`;
+
+    // encode all values first, so that encoding failures abort the transaction before any writes
+    const writes = Array.from(recordTransaction(fn), ([key, op]) => ({
+      key: key as StorageKeys<Spec>,
+      raw: op.type === 'set' ? encode(key, op.value, op.options, errMsg(key)) : null,
+      value: op.type === 'set' ? op.value : null,
+    }));
+    const oldRaws = writes.map(({ key }) => backendOp(errMsg(key), keyCtx(key), () => baseStrg.get(prefixed(key))));
+    const txKeys = writes.map(({ key }) => key);
+    // values evicted to make space, and access records before the transaction, to be restored on rollback
+    const evicted: EvictionCandidate[] = [];
+    if (quotaMgr !== undefined) {
+      loadQuotaRecords(quotaMgr);
+    }
+    const oldRecords = quotaMgr?.serialize();
+
+    let i = 0;
+    try {
+      for (; i < writes.length; i++) {
+        const { key, raw } = writes[i];
+        if (raw === null) {
+          erase(key, errMsg(key));
+        } else {
+          write(key, raw, errMsg(key), txKeys, evicted);
+        }
+      }
+    } catch (e) {
+      // restore values written so far (including the failed one, which may have been written partially) in reverse order
+      const rollbackFailures: unknown[] = [];
+      for (; i >= 0; i--) {
+        const physKey = prefixed(writes[i].key);
+        const oldRaw = oldRaws[i];
+        try {
+          if (oldRaw === null) {
+            baseStrg.remove(physKey);
+          } else {
+            baseStrg.set(physKey, oldRaw);
+          }
+        } catch (re) {
+          rollbackFailures.push(re);
+        }
+      }
+      for (const { physKey, raw } of evicted.reverse()) {
+        try {
+          baseStrg.set(physKey, raw);
+        } catch (re) {
+          rollbackFailures.push(re);
+        }
+      }
+      if (quotaMgr !== undefined && oldRecords !== undefined) {
+        quotaMgr.load(oldRecords);
+        quotaMgr.untrack();
+        saveQuotaRecords(quotaMgr);
+      }
+      if (rollbackFailures.length > 0) {
+        throw rollbackError(e, rollbackFailures);
+      }
+      throw e;
+    }
+    if (quotaMgr !== undefined) {
+      evicted.forEach(victim => notifyEviction(quotaMgr, victim));
+    }
+    writes.forEach(({ key, value }, idx) => listeners.notifyOwnChange(key, oldRaws[idx], value));
+  };
+
+  const has = (key: StorageKeys<Spec>): boolean => {
+    const rawVal = backendOp(`failed to check existence of value in storage (key: '${key}')`, keyCtx(key), () =>
+      baseStrg.get(prefixed(key))
+    );
+    return rawVal !== null && !serializer.isExpired(rawVal);
+  };
+
+  // keys in the spec that may be associated with values.
+  const candidateKeys = (): StorageKeys<Spec>[] => {
+    if (!isEnumerable(baseStrg)) {
+      return specKeys(keyToCodec);
+    }
+    return backendOp('failed to enumerate keys in storage', {}, () => baseStrg.keys())
+      .filter(k => isOwnPhysKey(prefix, scopeSep, k))
+      .map(k => unprefixed(prefix, k))
+      .filter((k): k is StorageKeys<Spec> => isSpecKey(keyToCodec, k));
+  };
+
+  const keys = (pattern?: string): StorageKeys<Spec>[] => {
+    return candidateKeys().filter(k => (pattern === undefined || matchesKeyPattern(pattern, k)) && has(k));
+  };
+
+  const subscribe = <K extends StorageKeys<Spec>>(
+    key: K,
+    listener: StorageChangeListenerOf<Spec, K>,
+    options: SubscribeOptions = {}
+  ): (() => void) => {
+    assertNotScopeKey(scopeSep, key);
+    return listeners.add(key, listener, options);
+  };
+
+  const watch = <K extends StorageKeys<Spec>>(
+    key: K,
+    listener: (value: StorageGetResultOf<Spec, K>) => void,
+    options: SubscribeOptions = {}
+  ): (() => void) => {
+    const onError = options.onError ?? reportError;
+    try {
+      listener(getOr(key, defaultValueOrNull) as StorageGetResultOf<Spec, K>);
+    } catch (e) {
+      onError(e);
+    }
+    return subscribe(key, change => listener(valueAfterChange(codecOf(keyToCodec, key), change)), options);
+  };
+
+  return Object.freeze({
+    get<K extends StorageKeys<Spec>>(key: K): StorageGetResultOf<Spec, K> {
+      return getOr(key, defaultValueOrNull) as StorageGetResultOf<Spec, K>;
+    },
+    getOrDefault<K extends StorageKeys<Spec>>(key: K, fallback: StorageValTypeOf<Spec, K>): StorageValTypeOf<Spec, K> {
+      return getOr(key, () => fallback);
+    },
+    set,
+    remove,
+    safeGet<K extends StorageKeys<Spec>>(key: K): StorageResult<StorageGetResultOf<Spec, K>> {
+      return toResult(() => getOr(key, defaultValueOrNull) as StorageGetResultOf<Spec, K>);
+    },
+    safeSet<K extends StorageKeys<Spec>>(
+      key: K,
+      value: StorageValTypeOf<Spec, K>,
+      options?: SetOptions
+    ): StorageResult<void> {
+      return toResult(() => set(key, value, options));
+    },
+    safeRemove(key: StorageKeys<Spec>): StorageResult<void> {
+      return toResult(() => remove(key));
+    },
+    reset(key: KeysWithDefault<Spec>): void {
+      remove(key);
+    },
+    defaultValueOf<K extends StorageKeys<Spec>>(key: K): StorageGetResultOf<Spec, K> {
+      return defaultValueOrNull(codecOf(keyToCodec, key)) as StorageGetResultOf<Spec, K>;
+    },
+    has,
+    keys<P extends SpecKeys<Spec> = SpecKeys<Spec>>(pattern?: P): KeysOfPattern<P>[] {
+      return keys(pattern) as KeysOfPattern<P>[];
+    },
+    usage(): number {
+      const entries = storedEntries();
+      quotaMgr?.track(entries);
+      return sumOfSizes(entries);
+    },
+    inspect({ repair = false }: InspectOptions = {}): StorageReport<StorageKeys<Spec>> {
+      const report = reportOf<StorageKeys<Spec>>(keyToCodec, serializer, prefixed, storedEntries());
+      if (!repair) {
+        return report;
+      }
+      const entries = report.entries.map(e => {
+        if (e.status !== 'corrupt') {
+          return e;
+        }
+        remove(e.key);
+        return { ...e, repaired: true };
+      });
+      return { ...report, entries };
+    },
+    clear(): void {
+      if (prefix === undefined || !isEnumerable(baseStrg)) {
+        candidateKeys().forEach(remove);
+      } else {
+        const physKeys = backendOp('failed to enumerate keys in storage', {}, () => baseStrg.keys()).filter(k =>
+          k.startsWith(prefix)
+        );
+        for (const physKey of physKeys) {
+          const key = unprefixed(prefix, physKey);
+          if (isOwnPhysKey(prefix, scopeSep, physKey) && isSpecKey(keyToCodec, key)) {
+            remove(key as StorageKeys<Spec>);
+            continue;
+          }
+          backendOp(`failed to remove value from storage (key : '${key}')`, { key, physicalKey: physKey }, () =>
+            baseStrg.remove(physKey)
+          );
+        }
+      }
+      if (quotaMgr !== undefined) {
+        resetQuotaRecords(quotaMgr);
+      }
+    },
+    getAll(): StorageValues<Spec> {
+      const values: StorageValues<Spec> = {};
+      for (const key of keys()) {
+        const v = getOr(key, (): typeof missing => missing);
+        if (v !== missing) {
+          values[key] = v;
+        }
+      }
+      return values;
+    },
+    setMany(values: StorageValues<Spec>, options: SetOptions = {}): void {
+      for (const key of Object.keys(values) as StorageKeys<Spec>[]) {
+        const v = values[key];
+        if (v !== undefined) {
+          set(key, v as StorageValTypeOf<Spec, typeof key>, options);
+        }
+      }
+    },
+    transaction,
+    subscribe,
+    watch,
+    atom<K extends StorageKeys<Spec>>(
+      key: K,
+      options: SubscribeOptions = {}
+    ): StorageAtom<StorageGetResultOf<Spec, K>, StorageValTypeOf<Spec, K>> {
+      return createAtom(
+        {
+          get: () => getOr(key, defaultValueOrNull) as StorageGetResultOf<Spec, K>,
+          set: (value: StorageValTypeOf<Spec, K>, setOptions?: SetOptions) => set(key, value, setOptions),
+          remove: () => remove(key),
+          watch: (listener, watchOptions) => watch(key, listener, watchOptions),
+        },
+        options
+      );
+    },
+    scope(name: string, value: string | number): TypedStorage<Spec> {
+      return createTypedStorage(keyToCodec, { ...options, keyPrefix: scopedPrefix(options, name, value) });
+    },
+  });
+};
+
+/**
+ * Interface of asynchronous strongly typed storage wrapper.
+ */
+export type AsyncTypedStorage<Spec extends StorageCodecSpec> = {
+  /**
+   * Retrieves a value associated with the `key` from the underlying storage (with decoding) asynchronously.
+   *
+   * Returns `null` if value is not associated, or the default value if the key has one (see {@linkcode withDefault}).
+   */
+  get<K extends StorageKeys<Spec>>(key: K): Promise<StorageGetResultOf<Spec, K>>;
+
+  /**
+   * Retrieves a value associated with the `key` like `get`, but returns the `fallback` if value is not associated.
+   */
+  getOrDefault<K extends StorageKeys<Spec>>(
+    key: K,
+    fallback: StorageValTypeOf<Spec, K>
+  ): Promise<StorageValTypeOf<Spec, K>>;
+
+  /**
+   * Associates the `key` with the `value` and saves the key-value pair in the underlying storage (with encoding) asynchronously.
+   */
+  set<K extends StorageKeys<Spec>>(key: K, value: StorageValTypeOf<Spec, K>, options?: SetOptions): Promise<void>;
+
+  /**
+   * Removes the `key` and the value with it from the underlying storage asynchronously.
+   */
+  remove(key: StorageKeys<Spec>): Promise<void>;
+
+  /**
+   * Non-throwing version of `get`. Resolves to the retrieved value, or the reason of the failure.
+   */
+  safeGet<K extends StorageKeys<Spec>>(key: K): Promise<StorageResult<StorageGetResultOf<Spec, K>>>;
+
+  /**
+   * Non-throwing version of `set`. Resolves to whether the value is saved successfully, or the reason of the failure.
+   */
+  safeSet<K extends StorageKeys<Spec>>(
+    key: K,
+    value: StorageValTypeOf<Spec, K>,
+    options?: SetOptions
+  ): Promise<StorageResult<void>>;
+
+  /**
+   * Non-throwing version of `remove`. Resolves to whether the value is removed successfully, or the reason of the failure.
+   */
+  safeRemove(key: StorageKeys<Spec>): Promise<StorageResult<void>>;
+
+  /**
+   * Resets the value for the `key` to its default value, by removing the stored value asynchronously.
+   */
+  reset(key: KeysWithDefault<Spec>): Promise<void>;
+
+  /**
+   * Returns the default value for the `key` (see {@linkcode withDefault}), or `null` if the key has none.
+   * Doesn't access the underlying storage, so the value is returned synchronously.
+   */
+  defaultValueOf<K extends StorageKeys<Spec>>(key: K): StorageGetResultOf<Spec, K>;
+
+  /**
+   * Checks if a value is associated with the `key` asynchronously.
+   */
+  has(key: StorageKeys<Spec>): Promise<boolean>;
+
+  /**
+   * Returns all keys with which values are associated asynchronously. If the `pattern` (a key or a key pattern in the spec) is specified,
+   * returns only keys that match it.
+   *
+   * Enumerates keys under the `keyPrefix` if the underlying storage is enumerable (see {@linkcode AsyncEnumerableBaseStorage}),
+   * otherwise checks every key in the spec except key patterns.
+   */
+  keys<P extends SpecKeys<Spec> = SpecKeys<Spec>>(pattern?: P): Promise<KeysOfPattern<P>[]>;
+
+  /**
+   * Returns the total size of entries under the `keyPrefix` in bytes asynchronously, computed as UTF-16 byte length of keys and values.
+   *
+   * Counts all entries under the `keyPrefix` if the underlying storage is enumerable, otherwise counts entries of keys in the spec.
+   * Entries of scopes (see `scope`) and the entry of metadata for quota management are not counted.
+   */
+  usage(): Promise<number>;
+
+  /**
+   * Inspects contents of the storage against the spec asynchronously: tries to decode the value for every key in the spec under the `keyPrefix`,
+   * and reports the status and the size of each entry, along with unknown entries. See {@linkcode StorageReport}.
+   *
+   * With `{ repair: true }`, corrupt entries are removed.
+   */
+  inspect(options?: InspectOptions): Promise<StorageReport<StorageKeys<Spec>>>;
+
+  /**
+   * Removes all values in the storage asynchronously.
+   *
+   * If `keyPrefix` is set and the underlying storage is enumerable, removes all keys under the `keyPrefix` including ones not in the spec.
+   * Otherwise, removes all keys in the spec, and keys that match key patterns if the underlying storage is enumerable.
+   * Access records for quota management are also discarded.
+   */
+  clear(): Promise<void>;
+
+  /**
+   * Retrieves all values in the storage asynchronously, as a record of keys and values.
+   *
+   * Keys with which values are not associated are absent in the result.
+   */
+  getAll(): Promise<StorageValues<Spec>>;
+
+  /**
+   * Associates each key in the `values` with its value asynchronously, like `set`.
+   */
+  setMany(values: StorageValues<Spec>, options?: SetOptions): Promise<void>;
+
+  /**
+   * Applies operations made on the transaction `tx` in the callback `fn` atomically, asynchronously.
+   *
+   * All values are encoded before any writes, so failures of encoding abort the transaction without changing the storage.
+   * If the underlying storage fails in the middle of writes, values written so far are rolled back to the previous ones.
+   * Note that operations on the storage made concurrently with the transaction are not isolated from it.
+   *
+   * @example
+   * ```
+   * await storage.transaction(tx => {
+   *   tx.set('theme', 'dark');
+   *   tx.set('fontSize', 16);
+   *   tx.remove('layout');
+   * });
+   * ```
+   */
+  transaction(fn: (tx: StorageTransaction<Spec>) => void): Promise<void>;
+
+  /**
+   * Registers the `listener` that is called every time the value for the `key` is changed.
+   *
+   * Changes made via this wrapper are always notified. Changes made from the outside are also notified
+   * if the underlying storage is subscribable (see {@linkcode AsyncSubscribableBaseStorage}).
+   *
+   * Returns a function to unregister the `listener`.
+   */
+  subscribe<K extends StorageKeys<Spec>>(
+    key: K,
+    listener: StorageChangeListenerOf<Spec, K>,
+    options?: SubscribeOptions
+  ): () => void;
+
+  /**
+   * Calls the `listener` with the current value for the `key` as soon as it is retrieved, then calls it with the new value every time the value is changed.
+   *
+   * The value passed to the `listener` is the same as the result of `get`.
+   *
+   * Returns a function to stop watching.
+   */
+  watch<K extends StorageKeys<Spec>>(
+    key: K,
+    listener: (value: StorageGetResultOf<Spec, K>) => void,
+    options?: SubscribeOptions
+  ): () => void;
+
+  /**
+   * Returns an async typed storage wrapper for the scope `name` = `value` in this storage, which shares the spec, the options and the underlying storage.
+   *
+   * Keys in the scope are prefixed by `${keyPrefix}${scopeSeparator}${name}${scopeSeparator}${value}${scopeSeparator}`,
+   * where `name` and `value` are escaped so that keys in different scopes never collide.
+   * The leading separator marks keys of scopes, so they never collide with keys of this storage either.
+   * Scopes can be nested. Entries of nested scopes are excluded from `keys`, `getAll`, `usage` and `inspect` of a scope,
+   * while `clear` of a scope removes them as well.
+   */
+  scope(name: string, value: string | number): AsyncTypedStorage<Spec>;
+};
+
+/**
+ * Options for `TypedStorage`.
+ */
+export interface AsyncTypedStorageOptions {
+  /**
+   * {@linkcode AsyncBaseStorage} implementation used by typed wrapper.
+   */
+  base: AsyncBaseStorage;
+
+  /**
+   * If this option is set, every key will be prefixed by `${keyPrefix}` *internally* (in BaseStorage level).
+   *
+   * Can be used for namespacing *singleton* storage (e.g. localStorage/sessionStorage).
+   */
+  keyPrefix?: string;
+
+  /**
+   * Separator of segments in key prefixes composed by `scope`. Must be non-empty and must not contain `%`. Defaults to `':'`.
+   *
+   * Keys starting with the separator are reserved for scopes, so keys in the spec must not start with it.
+   */
+  scopeSeparator?: string;
+
+  /**
+   * Function that returns the current time in milliseconds, used to determine expiration of values. Defaults to `Date.now`.
+   *
+   * Can be used for controlling time in tests.
+   */
+  now?: () => number;
+
+  /**
+   * How to treat stored values that are not decodable by `Codec`s on retrieval. Defaults to `'throw'`.
+   *
+   * - `'throw'`: throws an error
+   * - `'ignore'`: treats them as not associated
+   * - `'remove'`: treats them as not associated, and removes them from the underlying storage
+   */
+  onDecodeError?: DecodeErrorPolicy;
+
+  /**
+   * If this option is set, encoded values are compressed (if they are large enough) before stored. Can be `true` or {@linkcode CompressionOptions}.
+   *
+   * Values stored without compression (e.g. values stored before enabling this option) are still readable.
+   */
+  compression?: boolean | CompressionOptions;
+  /**
+   * If this option is set, the typed storage wrapper manages space of the storage, evicting values as needed. See {@linkcode QuotaOptions}.
+   */
+  quota?: QuotaOptions;
+}
+
+/**
+ * Creates a `AsyncTypedStorage`, typed wrapper for asynchronous storage.
+ *
+ * @example
+ * ```
+ * import { createAsyncTypedStorage, codecs, AsyncBaseStorage } from 'ts-souko';
+ *
+ * // async string value storage
+ * const asyncBase: AsyncBaseStorage = ...;
+ *
+ * // create typed wrapper for `asyncBase`
+ * const storage = createAsyncTypedStorage({
+ *   id: codecs.number,
+ *   name: codecs.string,
+ * }, { base: asyncBase } );
+ *
+ * async () => {
+ *   await storage.set('id', 100);       // OK
+ *   await storage.set('name', 'Alice'); // OK
+ *   await storage.set('id', 'nan');     // type error!
+ *   await storage.set('name', 0);       // type error!
+ *
+ *   const i = await storage.get('id');   // number | null
+ *   const n = await storage.get('name'); // string | null
+ * }
+ * ```
+ *
+ * @param spec an object consists of "key to `Codec` for its value" pairs, specifies value's type for each key.
+ * @param options options for `AsyncTypedStorage`.
+ */
+export const createAsyncTypedStorage = <Spec extends StorageCodecSpec>(
+  spec: Spec,
+  options: AsyncTypedStorageOptions
+): AsyncTypedStorage<Spec> => {
+  const { base, keyPrefix: prefix, now = Date.now, onDecodeError = 'throw', compression = false, quota } = options;
+  const scopeSep = options.scopeSeparator ?? DEFAULT_SCOPE_SEPARATOR;
+  assertValidScopeSeparator(spec, scopeSep);
+  const keyToCodec = spec;
+  const baseStrg = base;
+  const serializer = createSerializer(keyToCodec, now, compressionLayerOf(compression));
+
+  // keys of scopes are rejected even if they match key patterns, so that they are never accessed from this storage.
+  const prefixed = (key: string) => {
+    assertNotScopeKey(scopeSep, key);
+    if (prefix === undefined) {
+      return key;
+    }
+    return `${prefix}${key}`;
+  };
+  const keyCtx = (key: string): TypedStorageErrorContext => ({ key, physicalKey: prefixed(key) });
+  const quotaMgr = quotaManagerOf(keyToCodec, quota, prefixed, now);
+
+  // retrieves the value for the `key`. if value is not associated, returns the result of `onMissing` instead.
+  const getOr = async <K extends StorageKeys<Spec>, D>(
+    key: K,
+    onMissing: (codec: Codec<StorageValTypeOf<Spec, K>>) => D
+  ): Promise<StorageValTypeOf<Spec, K> | D> => {
+    const errMsg = `failed to get value from storage (key: '${key}')`;
+    const codec = codecOf(keyToCodec, key) as Codec<StorageValTypeOf<Spec, K>>;
+
+    const rawVal = await asyncBackendOp(errMsg, keyCtx(key), () => baseStrg.get(prefixed(key)));
+    if (rawVal === null) {
+      return onMissing(codec);
+    }
+    let deserialized: Deserialized | null;
+    try {
+      deserialized = serializer.deserialize(key, rawVal);
+    } catch (e) {
+      if (onDecodeError === 'throw') {
+        throw new DecodeError(errMsg, { ...keyCtx(key), raw: rawVal, cause: e });
+      }
+      if (onDecodeError === 'remove') {
+        await asyncBackendOp(errMsg, keyCtx(key), () => baseStrg.remove(prefixed(key)));
+      }
+      return onMissing(codec);
+    }
+    if (deserialized === null) {
+      // remove expired value lazily
+      await asyncBackendOp(errMsg, keyCtx(key), () => baseStrg.remove(prefixed(key)));
+      return onMissing(codec);
+    }
+    const { value, expiresAt, writeBack } = deserialized;
+    if (writeBack) {
+      await asyncBackendOp(errMsg, keyCtx(key), () =>
+        baseStrg.set(prefixed(key), serializer.serialize(key, value, expiresAt))
+      );
+      quotaMgr?.untrack();
+    }
+    if (quotaMgr !== undefined) {
+      await loadQuotaRecords(quotaMgr);
+      quotaMgr.touch(key);
+    }
+    return value as StorageValTypeOf<Spec, K>;
+  };
+
+  const listeners = createListenerRegistry(keyToCodec, serializer, prefix, listener =>
+    isSubscribable(baseStrg) ? baseStrg.subscribe(listener) : () => undefined
+  );
+
+  // entries under the `keyPrefix`, except entries of scopes and the entry of metadata for quota management.
+  const storedEntries = async (): Promise<StoredEntry[]> => {
+    const physKeys = isEnumerable(baseStrg)
+      ? (await asyncBackendOp('failed to enumerate keys in storage', {}, () => baseStrg.keys())).filter(k =>
+          isOwnPhysKey(prefix, scopeSep, k)
+        )
+      : specKeys(keyToCodec).map(prefixed);
+
+    const targets = physKeys.filter(k => k !== quotaMgr?.metadataPhysKey);
+    const raws = await Promise.all(
+      targets.map(physKey =>
+        asyncBackendOp(`failed to get value from storage (key: '${physKey}')`, { physicalKey: physKey }, () =>
+          baseStrg.get(physKey)
+        )
+      )
+    );
+    const entries: StoredEntry[] = [];
+    targets.forEach((physKey, i) => {
+      const raw = raws[i];
+      if (raw !== null) {
+        entries.push(storedEntryOf(keyToCodec, prefix, physKey, raw));
+      }
+    });
+    return entries;
+  };
+
+  // metadata is loaded once, even if requested concurrently.
+  let quotaRecordsLoading: Promise<void> | undefined;
+  const loadQuotaRecords = (q: QuotaManager): Promise<void> => {
+    if (quotaRecordsLoading === undefined) {
+      quotaRecordsLoading = asyncBackendOp(
+        'failed to load metadata for quota management',
+        { physicalKey: q.metadataPhysKey },
+        () => baseStrg.get(q.metadataPhysKey)
+      ).then(raw => q.load(raw));
+      quotaRecordsLoading.catch(() => {
+        // retry on the next request
+        quotaRecordsLoading = undefined;
+      });
+    }
+    return quotaRecordsLoading;
+  };
+
+  // metadata is saved in best effort, since it only affects the order of eviction.
+  const saveQuotaRecords = async (q: QuotaManager) => {
+    try {
+      await baseStrg.set(q.metadataPhysKey, q.serialize());
+    } catch {
+      // ignore
+    }
+  };
+
+  // discards access records in memory along with the metadata, so that stale records are never saved back.
+  const resetQuotaRecords = async (q: QuotaManager) => {
+    q.reset();
+    await asyncBackendOp('failed to remove metadata for quota management', { physicalKey: q.metadataPhysKey }, () =>
+      baseStrg.remove(q.metadataPhysKey)
+    );
+  };
+
+  const notifyEviction = (q: QuotaManager, { key, raw }: EvictionCandidate) => {
+    listeners.notifyOwnChange(key, raw, null);
+    try {
+      q.onEvict?.(key);
+    } catch (e) {
+      reportError(e);
+    }
+  };
+
+  // removes the value of the `victim`. in transactions, evictions are recorded to `evicted` instead of being notified,
+  // so that they can be rolled back.
+  const evict = async (q: QuotaManager, victim: EvictionCandidate, evicted?: EvictionCandidate[]) => {
+    const { key, physKey } = victim;
+    await asyncBackendOp(`failed to evict value from storage (key: '${key}')`, { key, physicalKey: physKey }, () =>
+      baseStrg.remove(physKey)
+    );
+    q.forget(key);
+    q.trackSize(physKey, null);
+    if (evicted !== undefined) {
+      evicted.push(victim);
+      return;
+    }
+    notifyEviction(q, victim);
+  };
+
+  // writes the raw value for the `key`. if quota management is enabled, evicts other values to make space for the value as needed.
+  // values for `pinned` keys are never evicted.
+  const write = async (
+    key: StorageKeys<Spec>,
+    raw: string,
+    errMsg: string,
+    pinned: string[] = [key],
+    evicted?: EvictionCandidate[]
+  ) => {
+    const physKey = prefixed(key);
+    if (quotaMgr === undefined) {
+      await asyncBackendOp(errMsg, keyCtx(key), () => baseStrg.set(physKey, raw));
+      return;
+    }
+    await loadQuotaRecords(quotaMgr);
+
+    // values to evict are determined on demand
+    let victims: EvictionCandidate[] | undefined;
+    const { budget } = quotaMgr;
+    const size = entrySize(physKey, raw);
+    const trackedUsage = quotaMgr.trackedUsage(physKey);
+    // stored entries are scanned only if the usage is not tracked yet, or the value seems not to fit in the budget,
+    // since the tracked usage doesn't reflect changes made by others
+    if (budget !== undefined && (trackedUsage === undefined || trackedUsage + size > budget)) {
+      const entries = await storedEntries();
+      quotaMgr.track(entries);
+      victims = quotaMgr.evictionOrder(entries, pinned);
+
+      let usage = sumOfSizes(entries.filter(e => e.physKey !== physKey));
+      if (usage - sumOfSizes(victims) + size > budget) {
+        throw overBudgetError(errMsg, keyCtx(key), size, budget);
+      }
+      while (usage + size > budget) {
+        const victim = victims.shift() as EvictionCandidate;
+        await evict(quotaMgr, victim, evicted);
+        usage -= victim.size;
+      }
+    }
+    for (;;) {
+      try {
+        await baseStrg.set(physKey, raw);
+        break;
+      } catch (e) {
+        if (!isQuotaExceededError(e)) {
+          throw backendError(errMsg, keyCtx(key), e);
+        }
+        if (victims === undefined) {
+          victims = quotaMgr.evictionOrder(await storedEntries(), pinned);
+        }
+        const victim = victims.shift();
+        if (victim === undefined) {
+          throw backendError(errMsg, keyCtx(key), e);
+        }
+        await evict(quotaMgr, victim, evicted);
+      }
+    }
+    quotaMgr.trackSize(physKey, size);
+    quotaMgr.recordSet(key);
+    await saveQuotaRecords(quotaMgr);
+  };
+
+  // serializes the value for the `key` into the raw value to be stored.
+  const encode = (key: string, value: unknown, options: SetOptions, errMsg: string): string => {
+    if (options.ttl !== undefined) {
+      assertValidTTL(options.ttl);
+    }
+    try {
+      return serializer.serialize(key, value, serializer.expiresAt(key, options.ttl));
+    } catch (e) {
+      throw new EncodeError(errMsg, { ...keyCtx(key), cause: e });
+    }
+  };
+
+  const set = async <K extends StorageKeys<Spec>>(
+    key: K,
+    value: StorageValTypeOf<Spec, K>,
+    options: SetOptions = {}
+  ): Promise<void> => {
+    const errMsg = `failed to set value from storage (key: '${key}')`;
+
+    const encoded = encode(key, value, options, errMsg);
+    const oldRaw = listeners.has(key)
+      ? await asyncBackendOp(errMsg, keyCtx(key), () => baseStrg.get(prefixed(key)))
+      : null;
+    await write(key, encoded, errMsg);
+    listeners.notifyOwnChange(key, oldRaw, value);
+  };
+
+  // removes the value for the `key`, and its access record if quota management is enabled.
+  const erase = async (key: StorageKeys<Spec>, errMsg: string) => {
+    await asyncBackendOp(errMsg, keyCtx(key), () => baseStrg.remove(prefixed(key)));
+    if (quotaMgr !== undefined) {
+      await loadQuotaRecords(quotaMgr);
+      quotaMgr.forget(key);
+      quotaMgr.trackSize(prefixed(key), null);
+      await saveQuotaRecords(quotaMgr);
+    }
+  };
+
+  const remove = async (key: StorageKeys<Spec>): Promise<void> => {
+    const errMsg = `failed to remove value from storage (key : '${key}')`;
+
+    const oldRaw = listeners.has(key)
+      ? await asyncBackendOp(errMsg, keyCtx(key), () => baseStrg.get(prefixed(key)))
+      : null;
+    await erase(key, errMsg);
+    listeners.notifyOwnChange(key, oldRaw, null);
+  };
+
+  const transaction = async (fn: (tx: StorageTransaction<Spec>) => void): Promise<void> => {
+    const errMsg = (key: string) => `failed to commit transaction (key: '${key}')`;
+
+    // encode all values first, so that encoding failures abort the transaction before any writes
+    const writes = Array.from(recordTransaction(fn), ([key, op]) => ({
+      key: key as StorageKeys<Spec>,
+      raw: op.type === 'set' ? encode(key, op.value, op.options, errMsg(key)) : null,
+      value: op.type === 'set' ? op.value : null,
+    }));
+    const oldRaws = await Promise.all(
+      writes.map(({ key }) => asyncBackendOp(errMsg(key), keyCtx(key), () => baseStrg.get(prefixed(key))))
+    );
+    const txKeys = writes.map(({ key }) => key);
+    // values evicted to make space, and access records before the transaction, to be restored on rollback
+    const evicted: EvictionCandidate[] = [];
+    if (quotaMgr !== undefined) {
+      await loadQuotaRecords(quotaMgr);
+    }
+    const oldRecords = quotaMgr?.serialize();
+
+    let i = 0;
+    try {
+      for (; i < writes.length; i++) {
+        const { key, raw } = writes[i];
+        if (raw === null) {
+          await erase(key, errMsg(key));
+        } else {
+          await write(key, raw, errMsg(key), txKeys, evicted);
+        }
+      }
+    } catch (e) {
+      // restore values written so far (including the failed one, which may have been written partially) in reverse order
+      const rollbackFailures: unknown[] = [];
+      for (; i >= 0; i--) {
+        const physKey = prefixed(writes[i].key);
+        const oldRaw = oldRaws[i];
+        try {
+          if (oldRaw === null) {
+            await baseStrg.remove(physKey);
+          } else {
+            await baseStrg.set(physKey, oldRaw);
+          }
+        } catch (re) {
+          rollbackFailures.push(re);
+        }
+      }
+      for (const { physKey, raw } of evicted.reverse()) {
+        try {
+          await baseStrg.set(physKey, raw);
+        } catch (re) {
+          rollbackFailures.push(re);
+        }
+      }
+      if (quotaMgr !== undefined && oldRecords !== undefined) {
+        quotaMgr.load(oldRecords);
+        quotaMgr.untrack();
+        await saveQuotaRecords(quotaMgr);
+      }
+      if (rollbackFailures.length > 0) {
+        throw rollbackError(e, rollbackFailures);
+      }
+      throw e;
+    }
+    if (quotaMgr !== undefined) {
+      evicted.forEach(victim => notifyEviction(quotaMgr, victim));
+    }
+    writes.forEach(({ key, value }, idx) => listeners.notifyOwnChange(key, oldRaws[idx], value));
+  };
+
+  const has = async (key: StorageKeys<Spec>): Promise<boolean> => {
+    const rawVal = await asyncBackendOp(
+      `failed to check existence of value in storage (key: '${key}')`,
+      keyCtx(key),
+      () => baseStrg.get(prefixed(key))
+    );
+    return rawVal !== null && !serializer.isExpired(rawVal);
+  };
+
+  // keys in the spec that may be associated with values.
+  const candidateKeys = async (): Promise<StorageKeys<Spec>[]> => {
+    if (!isEnumerable(baseStrg)) {
+      return specKeys(keyToCodec);
+    }
+    return (await asyncBackendOp('failed to enumerate keys in storage', {}, () => baseStrg.keys()))
+      .filter(k => isOwnPhysKey(prefix, scopeSep, k))
+      .map(k => unprefixed(prefix, k))
+      .filter((k): k is StorageKeys<Spec> => isSpecKey(keyToCodec, k));
+  };
+
+  const keys = async (pattern?: string): Promise<StorageKeys<Spec>[]> => {
+    const candidates = (await candidateKeys()).filter(k => pattern === undefined || matchesKeyPattern(pattern, k));
+    const exists = await Promise.all(candidates.map(has));
+    return candidates.filter((_, i) => exists[i]);
+  };
+
+  const subscribe = <K extends StorageKeys<Spec>>(
+    key: K,
+    listener: StorageChangeListenerOf<Spec, K>,
+    options: SubscribeOptions = {}
+  ): (() => void) => {
+    assertNotScopeKey(scopeSep, key);
+    return listeners.add(key, listener, options);
+  };
+
+  return Object.freeze({
+    async get<K extends StorageKeys<Spec>>(key: K): Promise<StorageGetResultOf<Spec, K>> {
+      return (await getOr(key, defaultValueOrNull)) as StorageGetResultOf<Spec, K>;
+    },
+    getOrDefault<K extends StorageKeys<Spec>>(
+      key: K,
+      fallback: StorageValTypeOf<Spec, K>
+    ): Promise<StorageValTypeOf<Spec, K>> {
+      return getOr(key, () => fallback);
+    },
+    set,
+    remove,
+    safeGet<K extends StorageKeys<Spec>>(key: K): Promise<StorageResult<StorageGetResultOf<Spec, K>>> {
+      return toAsyncResult(async () => (await getOr(key, defaultValueOrNull)) as StorageGetResultOf<Spec, K>);
+    },
+    safeSet<K extends StorageKeys<Spec>>(
+      key: K,
+      value: StorageValTypeOf<Spec, K>,
+      options?: SetOptions
+    ): Promise<StorageResult<void>> {
+      return toAsyncResult(() => set(key, value, options));
+    },
+    safeRemove(key: StorageKeys<Spec>): Promise<StorageResult<void>> {
+      return toAsyncResult(() => remove(key));
+    },
+    reset(key: KeysWithDefault<Spec>): Promise<void> {
+      return remove(key);
+    },
+    defaultValueOf<K extends StorageKeys<Spec>>(key: K): StorageGetResultOf<Spec, K> {
+      return defaultValueOrNull(codecOf(keyToCodec, key)) as StorageGetResultOf<Spec, K>;
+    },
+    has,
+    async keys<P extends SpecKeys<Spec> = SpecKeys<Spec>>(pattern?: P): Promise<KeysOfPattern<P>[]> {
+      return (await keys(pattern)) as KeysOfPattern<P>[];
+    },
+    async usage(): Promise<number> {
+      const entries = await storedEntries();
+      quotaMgr?.track(entries);
+      return sumOfSizes(entries);
+    },
+    async inspect({ repair = false }: InspectOptions = {}): Promise<StorageReport<StorageKeys<Spec>>> {
+      const report = reportOf<StorageKeys<Spec>>(keyToCodec, serializer, prefixed, await storedEntries());
+      if (!repair) {
+        return report;
+      }
+      const entries: StorageEntryReport<StorageKeys<Spec>>[] = [];
+      for (const e of report.entries) {
+        if (e.status !== 'corrupt') {
+          entries.push(e);
+          continue;
+        }
+        await remove(e.key);
+        entries.push({ ...e, repaired: true });
+      }
+      return { ...report, entries };
+    },
+    async clear(): Promise<void> {
+      if (prefix === undefined || !isEnumerable(baseStrg)) {
+        for (const key of await candidateKeys()) {
+          await remove(key);
+        }
+      } else {
+        const physKeys = (
+          await asyncBackendOp('failed to enumerate keys in storage', {}, () => baseStrg.keys())
+        ).filter(k => k.startsWith(prefix));
+        for (const physKey of physKeys) {
+          const key = unprefixed(prefix, physKey);
+          if (isOwnPhysKey(prefix, scopeSep, physKey) && isSpecKey(keyToCodec, key)) {
+            await remove(key as StorageKeys<Spec>);
+            continue;
+          }
+          await asyncBackendOp(
+            `failed to remove value from storage (key : '${key}')`,
+            { key, physicalKey: physKey },
+            () => baseStrg.remove(physKey)
+          );
+        }
+      }
+      if (quotaMgr !== undefined) {
+        await resetQuotaRecords(quotaMgr);
+      }
+    },
+    async getAll(): Promise<StorageValues<Spec>> {
+      const values: StorageValues<Spec> = {};
+      for (const key of await keys()) {
+        const v = await getOr(key, (): typeof missing => missing);
+        if (v !== missing) {
+          values[key] = v;
+        }
+      }
+      return values;
+    },
+    async setMany(values: StorageValues<Spec>, options: SetOptions = {}): Promise<void> {
+      for (const key of Object.keys(values) as StorageKeys<Spec>[]) {
+        const v = values[key];
+        if (v !== undefined) {
+          await set(key, v as StorageValTypeOf<Spec, typeof key>, options);
+        }
+      }
+    },
+    transaction,
+    subscribe,
+    watch<K extends StorageKeys<Spec>>(
+      key: K,
+      listener: (value: StorageGetResultOf<Spec, K>) => void,
+      options: SubscribeOptions = {}
+    ): () => void {
+      const onError = options.onError ?? reportError;
+      // changes notified before the initial value is retrieved supersede the initial value.
+      let settled = false;
+      let active = true;
+
+      getOr(key, defaultValueOrNull)
+        .then(v => {
+          if (!settled && active) {
+            settled = true;
+            listener(v as StorageGetResultOf<Spec, K>);
+          }
+        })
+        .catch(onError);
+
+      const unsubscribe = subscribe(
+        key,
+        change => {
+          settled = true;
+          listener(valueAfterChange(codecOf(keyToCodec, key), change));
+        },
+        options
+      );
+      return () => {
+        active = false;
+        unsubscribe();
+      };
+    },
+    scope(name: string, value: string | number): AsyncTypedStorage<Spec> {
+      return createAsyncTypedStorage(keyToCodec, { ...options, keyPrefix: scopedPrefix(options, name, value) });
+    },
+  });
+};
+
+// returns the default value of the key if `codec` has one, otherwise `null`. used as `onMissing` of `get`.
+const defaultValueOrNull = <T>(codec: Codec<T>): T | null => {
+  return hasDefault(codec) ? codec.defaultValue : null;
+};
+
+const isVersionedCodec = <T>(codec: Codec<T>): codec is VersionedCodec<T> => {
+  return 'versionOf' in codec;
+};
+
+// checks if `encoded` is migrated from older version on decoding by `VersionedCodec`, and the migrated value should be written back.
+const shouldWriteBack = <T>(codec: Codec<T>, encoded: string): boolean => {
+  return isVersionedCodec(codec) && codec.writeBack && codec.versionOf(encoded) < codec.version;
+};
+
+/* serialization of values */
+// Values with expiration time are stored in the form of `${EXPIRY_TAG_MARK}${expiresAt}:${encoded}`, where `expiresAt` is an integer.
+// Values without expiration time that start with either of marks are escaped by prefixing `UNTAGGED_MARK`, and other values are stored as is.
+const EXPIRY_TAG_MARK = '\u0001t';
+const EXPIRY_TAG_REGEX = /^\u0001t(\d+):/;
+const UNTAGGED_MARK = '\u0001n';
+
+// Result of deserialization: decoded value, its expiration time and whether it should be written back.
+type Deserialized = {
+  value: unknown;
+  expiresAt: number | undefined;
+  writeBack: boolean;
+};
+
+type Serializer = ReturnType<typeof createSerializer>;
+
+const compressionLayerOf = (compression: boolean | CompressionOptions): Codec<string> | undefined => {
+  if (compression === false) {
+    return undefined;
+  }
+  return codecs.compression(compression === true ? {} : compression);
+};
+
+// converts values to/from raw strings stored in the underlying storage, according to the `spec`.
+// if `compression` is specified, encoded values are compressed inside of the expiry tag.
+const createSerializer = (spec: StorageCodecSpec, now: () => number, compression?: Codec<string>) => {
+  return {
+    // computes the expiration time of a value to be set for the `key`, from TTL specified per set or TTL for the key.
+    expiresAt(key: string, ttl: number | undefined): number | undefined {
+      const codec = codecOf(spec, key);
+      const effectiveTTL = ttl ?? (hasTTL(codec) ? codec.ttl : undefined);
+      if (effectiveTTL === undefined || effectiveTTL === Infinity) {
+        return undefined;
+      }
+      // rounds up so that the expiration time can be written in the tag, even if the clock or the TTL is fractional
+      return Math.ceil(now() + effectiveTTL);
+    },
+    serialize(key: string, value: unknown, expiresAt: number | undefined): string {
+      const codec = codecOf(spec, key);
+      const encoded = compression !== undefined ? compression.encode(codec.encode(value)) : codec.encode(value);
+      if (expiresAt === undefined) {
+        return encoded.startsWith(EXPIRY_TAG_MARK) || encoded.startsWith(UNTAGGED_MARK)
+          ? `${UNTAGGED_MARK}${encoded}`
+          : encoded;
+      }
+      return `${EXPIRY_TAG_MARK}${expiresAt}:${encoded}`;
+    },
+    isExpired(raw: string): boolean {
+      const m = EXPIRY_TAG_REGEX.exec(raw);
+      return m !== null && Number(m[1]) <= now();
+    },
+    // returns `null` if the value has expired.
+    deserialize(key: string, raw: string): Deserialized | null {
+      let encoded = raw;
+      let expiresAt: number | undefined;
+
+      const m = EXPIRY_TAG_REGEX.exec(raw);
+      if (m !== null) {
+        expiresAt = Number(m[1]);
+        if (expiresAt <= now()) {
+          return null;
+        }
+        encoded = raw.slice(m[0].length);
+      } else if (raw.startsWith(UNTAGGED_MARK)) {
+        encoded = raw.slice(UNTAGGED_MARK.length);
+      }
+      if (compression !== undefined) {
+        encoded = compression.decode(encoded);
+      }
+      const codec = codecOf(spec, key);
+      return { value: codec.decode(encoded), expiresAt, writeBack: shouldWriteBack(codec, encoded) };
+    },
+  };
+};
+
+// computes the value that `get` returns after the `change`.
+const valueAfterChange = <K extends string, T, R>(codec: Codec<T>, change: StorageValueChange<K, T>): R => {
+  return (change.newValue === null ? defaultValueOrNull(codec) : change.newValue) as unknown as R;
+};
+
+/* change notification */
+type ListenerEntry = {
+  listener: (change: StorageValueChange<any, any>) => void;
+  onError: (err: unknown) => void;
+};
+
+// manages change listeners of a typed storage wrapper for each key.
+// starts to subscribe changes in the underlying storage via `subscribeBase` only while some listener is registered.
+const createListenerRegistry = (
+  spec: StorageCodecSpec,
+  serializer: Serializer,
+  prefix: string | undefined,
+  subscribeBase: (listener: (change: BaseStorageChange) => void) => () => void
+) => {
+  const m = new Map<string, Set<ListenerEntry>>();
+  let unsubscribeBase: (() => void) | undefined;
+
+  const notify = (key: string, makeChange: () => StorageValueChange<string, unknown>) => {
+    const entries = m.get(key);
+    if (entries === undefined || entries.size === 0) {
+      return;
+    }
+
+    let change: StorageValueChange<string, unknown>;
+    try {
+      change = makeChange();
+    } catch (e) {
+      entries.forEach(({ onError }) => onError(e));
+      return;
+    }
+    // copy entries to tolerate modifications of listeners during notification
+    Array.from(entries).forEach(({ listener, onError }) => {
+      try {
+        listener(change);
+      } catch (e) {
+        onError(e);
+      }
+    });
+  };
+
+  // deserializes a raw value of a change. expired value is treated as absent.
+  const deserialize = (key: string, raw: string | null) => {
+    if (raw === null) {
+      return null;
+    }
+    const deserialized = serializer.deserialize(key, raw);
+    return deserialized === null ? null : deserialized.value;
+  };
+
+  // deserializes old value of a change. undecodable old value is treated as absent, since it has been overwritten anyway.
+  const deserializeOld = (key: string, raw: string | null) => {
+    try {
+      return deserialize(key, raw);
+    } catch {
+      return null;
+    }
+  };
+
+  const onBaseChange = ({ key: physKey, oldValue, newValue }: BaseStorageChange) => {
+    if (physKey === null) {
+      // whole storage has been cleared
+      m.forEach((_, key) => notify(key, () => ({ key, oldValue: null, newValue: null, external: true })));
+      return;
+    }
+    const key = unprefixed(prefix, physKey);
+    if (key === undefined || !isSpecKey(spec, key)) {
+      return;
+    }
+    notify(key, () => {
+      let newDeserialized: unknown;
+      try {
+        newDeserialized = deserialize(key, newValue);
+      } catch (e) {
+        throw new DecodeError(`failed to decode changed value (key: '${key}')`, {
+          key,
+          physicalKey: physKey,
+          raw: newValue as string,
+          cause: e,
+        });
+      }
+      return { key, oldValue: deserializeOld(key, oldValue), newValue: newDeserialized, external: true };
+    });
+  };
+
+  return {
+    has(key: string): boolean {
+      return (m.get(key)?.size ?? 0) > 0;
+    },
+    add(
+      key: string,
+      listener: (change: StorageValueChange<any, any>) => void,
+      { onError = reportError }: SubscribeOptions
+    ): () => void {
+      const entry = { listener, onError };
+      const entries = m.get(key) ?? new Set();
+      entries.add(entry);
+      m.set(key, entries);
+      if (unsubscribeBase === undefined) {
+        unsubscribeBase = subscribeBase(onBaseChange);
+      }
+
+      return () => {
+        entries.delete(entry);
+        if (entries.size === 0) {
+          m.delete(key);
+        }
+        if (m.size === 0 && unsubscribeBase !== undefined) {
+          unsubscribeBase();
+          unsubscribeBase = undefined;
+        }
+      };
+    },
+    notifyOwnChange(key: string, oldRaw: string | null, newValue: unknown) {
+      notify(key, () => ({ key, oldValue: deserializeOld(key, oldRaw), newValue, external: false }));
+    },
+  };
+};
+
+/* atoms */
+// `Symbol.observable` is available only if polyfilled.
+const observableSymbol = (Symbol as unknown as { observable?: symbol }).observable;
+
+// creates an atom from operations on the value for a key.
+const createAtom = <T, V>(
+  ops: {
+    get: () => T;
+    set: (value: V, options?: SetOptions) => void;
+    remove: () => void;
+    watch: (listener: (value: T) => void, options: SubscribeOptions) => () => void;
+  },
+  { onError }: SubscribeOptions
+): StorageAtom<T, V> => {
+  const atom: StorageAtom<T, V> = {
+    get: ops.get,
+    set: ops.set,
+    update: (fn, options) => ops.set(fn(ops.get()), options),
+    remove: ops.remove,
+    subscribe(observer) {
+      const next = typeof observer === 'function' ? observer : (v: T) => observer.next?.(v);
+      const onErrorOfObserver =
+        typeof observer !== 'function' && observer.error !== undefined ? (e: unknown) => observer.error?.(e) : onError;
+      const stop = ops.watch(next, { onError: onErrorOfObserver });
+
+      // tolerates multiple calls, since consumers may call both of the subscription itself and `unsubscribe`
+      let active = true;
+      const unsubscribe = () => {
+        if (active) {
+          active = false;
+          stop();
+        }
+      };
+      return Object.assign(unsubscribe, { unsubscribe });
+    },
+    '@@observable': () => atom,
+  };
+  if (observableSymbol !== undefined) {
+    Object.defineProperty(atom, observableSymbol, { value: () => atom });
+  }
+  return Object.freeze(atom);
+};
+
+/* inspection */
+// builds the report of `inspect` from stored `entries`, without repairing.
+// keys in the spec absent in `entries` are reported as missing.
+const reportOf = <K extends string>(
+  spec: StorageCodecSpec,
+  serializer: Serializer,
+  prefixed: (key: string) => string,
+  entries: StoredEntry[]
+): StorageReport<K> => {
+  const entryReports: StorageEntryReport<K>[] = [];
+  const unknownEntries: StorageReport<K>['unknownEntries'] = [];
+
+  for (const { key, physKey, raw, size } of entries) {
+    if (key === undefined) {
+      unknownEntries.push({ physicalKey: physKey, size });
+      continue;
+    }
+    const base = { key: key as K, physicalKey: physKey };
+    try {
+      const deserialized = serializer.deserialize(key, raw);
+      entryReports.push(deserialized === null ? { ...base, status: 'expired', size } : { ...base, status: 'ok', size });
+    } catch (e) {
+      const error = new DecodeError(`failed to decode value in storage (key: '${key}')`, { ...base, raw, cause: e });
+      entryReports.push({ ...base, status: 'corrupt', size, error, repaired: false });
+    }
+  }
+
+  const found = new Set<string>(entryReports.map(e => e.key));
+  for (const key of specKeys(spec)) {
+    if (!found.has(key)) {
+      entryReports.push({ key: key as K, physicalKey: prefixed(key), status: 'missing' });
+    }
+  }
+  return { entries: entryReports, unknownEntries, totalSize: sumOfSizes(entries) };
+};
+
+/* scopes */
+const DEFAULT_SCOPE_SEPARATOR = ':';
+
+// escapes `%` and characters in the separator by percent-encoding, so that escaped segments never contain the separator.
+const escapeScopeSegment = (segment: string, separator: string): string => {
+  return Array.from(segment, ch => {
+    if (ch !== '%' && !separator.includes(ch)) {
+      return ch;
+    }
+    const enc = encodeURIComponent(ch);
+    return enc.startsWith('%') ? enc : `%${ch.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`;
+  }).join('');
+};
+
+// composes the key prefix of the scope `name` = `value` in the storage with `options`.
+// the prefix starts with the separator, which marks keys of scopes (see `isScopeKey`).
+const scopedPrefix = (
+  { keyPrefix = '', scopeSeparator: sep = DEFAULT_SCOPE_SEPARATOR }: { keyPrefix?: string; scopeSeparator?: string },
+  name: string,
+  value: string | number
+): string => {
+  return `${keyPrefix}${sep}${escapeScopeSegment(name, sep)}${sep}${escapeScopeSegment(String(value), sep)}${sep}`;
+};
+
+// checks if the key (without the prefix of the storage) is of an entry of its scopes.
+// keys of the storage itself never start with the separator, so they never collide with keys of scopes.
+const isScopeKey = (sep: string, key: string): boolean => key.startsWith(sep);
+
+const assertNotScopeKey = (sep: string, key: string) => {
+  if (isScopeKey(sep, key)) {
+    throw Error(`key '${key}' starts with the scope separator '${sep}', which is reserved for keys of scopes`);
+  }
+};
+
+// validates the scope separator, and keys in the spec, which must not start with the separator.
+const assertValidScopeSeparator = (spec: StorageCodecSpec, sep: string) => {
+  if (sep === '' || sep.includes('%')) {
+    throw Error(`invalid scope separator: '${sep}' (must be non-empty and must not contain '%')`);
+  }
+  Object.keys(spec).forEach(k => assertNotScopeKey(sep, k));
+};
+
+// checks if the physical key is of an entry of the storage itself: under the `prefix`, and not of an entry of its scopes.
+const isOwnPhysKey = (prefix: string | undefined, sep: string, physKey: string): boolean => {
+  const key = unprefixed(prefix, physKey);
+  return key !== undefined && !isScopeKey(sep, key);
+};
+
+/* transactions */
+type TransactionOp = { type: 'set'; value: unknown; options: SetOptions } | { type: 'remove' };
+
+// runs `fn` with a transaction, and returns operations made on it. a later operation on the same key supersedes an earlier one.
+const recordTransaction = <Spec extends StorageCodecSpec>(
+  fn: (tx: StorageTransaction<Spec>) => void
+): Map<string, TransactionOp> => {
+  const ops = new Map<string, TransactionOp>();
+  let active = true;
+  const record = (key: string, op: TransactionOp) => {
+    if (!active) {
+      throw Error('transaction has already finished');
+    }
+    ops.delete(key);
+    ops.set(key, op);
+  };
+
+  try {
+    fn({
+      set: (key, value, options = {}) => record(key, { type: 'set', value, options }),
+      remove: key => record(key, { type: 'remove' }),
+    });
+  } finally {
+    active = false;
+  }
+  return ops;
+};
+
+// error thrown when rolling back a failed transaction also failed.
+const rollbackError = (cause: unknown, rollbackFailures: unknown[]): StorageBackendError => {
+  return new StorageBackendError(
+    `failed to roll back transaction (${rollbackFailures.length} key(s) may be left inconsistent)`,
+    { cause }
+  );
+};
+
+/* quota management */
+const DEFAULT_QUOTA_METADATA_KEY = '__quota__';
+
+// size of an entry in bytes. strings are assumed to be stored in UTF-16, as web storages do.
+const entrySize = (physKey: string, raw: string): number => {
+  return (physKey.length + raw.length) * 2;
+};
+
+// checks if the error indicates that the quota of the underlying storage is exceeded (e.g. `QuotaExceededError` of web storages).
+const isQuotaExceededError = (e: unknown): boolean => {
+  if (typeof e !== 'object' || e === null) {
+    return false;
+  }
+  const { name, code } = e as { name?: unknown; code?: unknown };
+  // 22: legacy code of `QuotaExceededError`, 1014: code of the error of old Firefox
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22 || code === 1014;
+};
+
+// Entry stored under the `keyPrefix`. `key` is `undefined` if the entry is not for a key in the spec.
+type StoredEntry = {
+  key: string | undefined;
+  physKey: string;
+  raw: string;
+  size: number;
+};
+
+type EvictionCandidate = StoredEntry & { key: string };
+
+const storedEntryOf = (
+  spec: StorageCodecSpec,
+  prefix: string | undefined,
+  physKey: string,
+  raw: string
+): StoredEntry => {
+  const key = unprefixed(prefix, physKey);
+  return { key: isSpecKey(spec, key) ? key : undefined, physKey, raw, size: entrySize(physKey, raw) };
+};
+
+type AccessRecord = {
+  setAt: number;
+  accessedAt: number;
+};
+
+type QuotaManager = ReturnType<typeof createQuotaManager>;
+
+// tracks times of accesses to values, and decides the order of eviction according to the policy.
+// access records are saved to the entry of metadata in the form of `[key, setAt, accessedAt][]`.
+const createQuotaManager = (
+  spec: StorageCodecSpec,
+  { budget, policy = 'lru', onEvict }: QuotaOptions,
+  metadataPhysKey: string,
+  now: () => number
+) => {
+  let records: Map<string, AccessRecord> | undefined;
+  // sizes of entries by physical keys, tracked in memory since the last scan of stored entries. `undefined` until scanned.
+  let sizes: Map<string, number> | undefined;
+  let totalSize = 0;
+  const recordOf = (key: string): AccessRecord => records?.get(key) ?? { setAt: 0, accessedAt: 0 };
+  const priorityOf = (key: string): number => {
+    const codec = codecOf(spec, key);
+    return hasPriority(codec) ? codec.priority : 0;
+  };
+
+  const byAccess = (a: EvictionCandidate, b: EvictionCandidate) =>
+    recordOf(a.key).accessedAt - recordOf(b.key).accessedAt;
+  const compare: Record<EvictionPolicy, (a: EvictionCandidate, b: EvictionCandidate) => number> = {
+    lru: byAccess,
+    oldest: (a, b) => recordOf(a.key).setAt - recordOf(b.key).setAt,
+    priority: (a, b) => priorityOf(a.key) - priorityOf(b.key) || byAccess(a, b),
+  };
+
+  return {
+    budget,
+    metadataPhysKey,
+    onEvict,
+    isLoaded(): boolean {
+      return records !== undefined;
+    },
+    load(raw: string | null) {
+      const loaded = new Map<string, AccessRecord>();
+      try {
+        const parsed = raw === null ? [] : (JSON.parse(raw) as unknown);
+        if (Array.isArray(parsed)) {
+          for (const r of parsed) {
+            if (Array.isArray(r) && typeof r[0] === 'string' && typeof r[1] === 'number' && typeof r[2] === 'number') {
+              loaded.set(r[0], { setAt: r[1], accessedAt: r[2] });
+            }
+          }
+        }
+      } catch {
+        // broken metadata is discarded. it only affects the order of eviction.
+      }
+      records = loaded;
+    },
+    serialize(): string {
+      return JSON.stringify(Array.from(records ?? [], ([key, { setAt, accessedAt }]) => [key, setAt, accessedAt]));
+    },
+    touch(key: string) {
+      records?.set(key, { ...recordOf(key), accessedAt: now() });
+    },
+    recordSet(key: string) {
+      const t = now();
+      records?.set(key, { setAt: t, accessedAt: t });
+    },
+    forget(key: string) {
+      records?.delete(key);
+    },
+    // usage tracked in memory, excluding the entry for the `physKey`. `undefined` if not tracked.
+    trackedUsage(physKey: string): number | undefined {
+      return sizes === undefined ? undefined : totalSize - (sizes.get(physKey) ?? 0);
+    },
+    track(entries: StoredEntry[]) {
+      sizes = new Map(entries.map(e => [e.physKey, e.size]));
+      totalSize = sumOfSizes(entries);
+    },
+    // updates the tracked size of the entry for the `physKey`. `null` means removal.
+    trackSize(physKey: string, size: number | null) {
+      if (sizes === undefined) {
+        return;
+      }
+      totalSize -= sizes.get(physKey) ?? 0;
+      if (size === null) {
+        sizes.delete(physKey);
+      } else {
+        sizes.set(physKey, size);
+        totalSize += size;
+      }
+    },
+    // discards the tracked usage, so that stored entries are scanned again on the next write.
+    untrack() {
+      sizes = undefined;
+    },
+    // discards all access records and the tracked usage, e.g. after clearing the storage.
+    reset() {
+      records = new Map();
+      sizes = undefined;
+    },
+    // returns entries of keys in the spec other than `pinned` ones, in the order of eviction.
+    evictionOrder(entries: StoredEntry[], pinned: string[]): EvictionCandidate[] {
+      return entries
+        .filter((e): e is EvictionCandidate => e.key !== undefined && !pinned.includes(e.key))
+        .sort(compare[policy]);
+    },
+  };
+};
+
+const quotaManagerOf = (
+  spec: StorageCodecSpec,
+  quota: QuotaOptions | undefined,
+  prefixed: (key: string) => string,
+  now: () => number
+): QuotaManager | undefined => {
+  if (quota === undefined) {
+    return undefined;
+  }
+  const metadataKey = quota.metadataKey ?? DEFAULT_QUOTA_METADATA_KEY;
+  if (isSpecKey(spec, metadataKey)) {
+    throw Error(`metadata key for quota management '${metadataKey}' conflicts with a key in the spec`);
+  }
+  return createQuotaManager(spec, quota, prefixed(metadataKey), now);
+};
+
+const sumOfSizes = (entries: StoredEntry[]): number => {
+  return entries.reduce((sum, e) => sum + e.size, 0);
+};
+
+// error thrown when the value doesn't fit in the budget even after evicting all other values.
+const overBudgetError = (msg: string, ctx: TypedStorageErrorContext, size: number, budget: number) => {
+  return new QuotaExceededError(
+    `${msg}: value doesn't fit in the budget (value: ${size} bytes, budget: ${budget} bytes)`,
+    ctx
+  );
+};
+
+// marker for absence of value, used as the result of `onMissing` of `get`.
+const missing = Symbol('missing');
+
+// keys of the object except key patterns, typed as the keys of `Spec`.
+const specKeys = <Spec extends StorageCodecSpec>(spec: Spec): StorageKeys<Spec>[] => {
+  return Object.keys(spec).filter(k => !isKeyPattern(k)) as StorageKeys<Spec>[];
+};
+
+const isSpecKey = (spec: StorageCodecSpec, key: string | undefined): boolean => {
+  return key !== undefined && specKeyOf(spec, key) !== undefined;
+};
+
+/* key patterns */
+const KEY_PATTERN_PLACEHOLDER_REGEX = /\$\{(string|number)\}/;
+
+// sources of regexes for the placeholders. parts for `${number}` are captured, and checked by `isNumericString` after matching.
+const placeholderRegexSources: Record<string, string> = {
+  string: '[\\s\\S]*?',
+  number: '([\\s\\S]*?)',
+};
+
+// same as the rule of TypeScript for strings assignable to `${number}` (e.g. `'1'`, `'-1.5e3'`, `'0x10'`, `' 1'`).
+const isNumericString = (s: string): boolean => s !== '' && Number.isFinite(+s);
+
+const isKeyPattern = (key: string): boolean => KEY_PATTERN_PLACEHOLDER_REGEX.test(key);
+
+const keyPatternRegexCache = new Map<string, RegExp>();
+
+// compiles the key pattern to the regex that matches keys matching the pattern, except checks of parts for `${number}`.
+const keyPatternRegexOf = (pattern: string): RegExp => {
+  const cached = keyPatternRegexCache.get(pattern);
+  if (cached !== undefined) {
+    return cached;
+  }
+  // splitting by the regex with a capturing group, placeholder names are at odd indices
+  const source = pattern
+    .split(new RegExp(KEY_PATTERN_PLACEHOLDER_REGEX.source))
+    .map((part, i) => (i % 2 === 1 ? placeholderRegexSources[part] : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  const regex = new RegExp(`^${source}$`);
+  keyPatternRegexCache.set(pattern, regex);
+  return regex;
+};
+
+// checks if the `key` matches the `pattern`. keys without placeholders match only themselves.
+const matchesKeyPattern = (pattern: string, key: string): boolean => {
+  if (!isKeyPattern(pattern)) {
+    return pattern === key;
+  }
+  const m = keyPatternRegexOf(pattern).exec(key);
+  return m !== null && m.slice(1).every(isNumericString);
+};
+
+// returns the key in the spec that specifies the codec for the `key`:
+// the `key` itself if the spec has it, otherwise the first key pattern that the `key` matches.
+const specKeyOf = (spec: StorageCodecSpec, key: string): string | undefined => {
+  if (Object.prototype.hasOwnProperty.call(spec, key)) {
+    return key;
+  }
+  return Object.keys(spec).find(p => isKeyPattern(p) && matchesKeyPattern(p, key));
+};
+
+// returns the codec for the `key`. throws if the `key` is neither a key in the spec nor matches any key pattern in the spec.
+const codecOf = (spec: StorageCodecSpec, key: string): Codec<unknown> => {
+  const specKey = specKeyOf(spec, key);
+  if (specKey === undefined) {
+    throw Error(`key '${key}' is not in the spec, and doesn't match any key pattern in the spec`);
+  }
+  return spec[specKey] as Codec<unknown>;
+};
+
+// strips `prefix` from `physKey`. returns `undefined` if `physKey` doesn't start with `prefix`.
+const unprefixed = (prefix: string | undefined, physKey: string): string | undefined => {
+  if (prefix === undefined) {
+    return physKey;
+  }
+  return physKey.startsWith(prefix) ? physKey.slice(prefix.length) : undefined;
+};
+
+// rethrows the error asynchronously, so that it surfaces as an uncaught error without interrupting the operation in progress.
+const reportError = (err: unknown) => {
+  setTimeout(() => {
+    throw err;
+  });
+};
+
+/* error utils */
+/**
+ * Result of an operation of "safe" API on typed storage wrappers (e.g. `safeGet`), which never throws.
+ *
+ * On failure, `error` is an instance of {@linkcode DecodeError}, {@linkcode EncodeError}, {@linkcode StorageBackendError},
+ * {@linkcode IntegrityError} or {@linkcode QuotaExceededError} according to the `reason`.
+ */
+export type StorageResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; reason: StorageFailureReason; error: TypedStorageError };
+
+// runs an operation on the underlying storage, wrapping errors from it.
+const backendOp = <T>(msg: string, ctx: TypedStorageErrorContext, op: () => T): T => {
+  try {
+    return op();
+  } catch (e) {
+    throw backendError(msg, ctx, e);
+  }
+};
+
+const asyncBackendOp = async <T>(msg: string, ctx: TypedStorageErrorContext, op: () => Promise<T>): Promise<T> => {
+  try {
+    return await op();
+  } catch (e) {
+    throw backendError(msg, ctx, e);
+  }
+};
+
+// integrity errors reported by the underlying storage (e.g. encrypted storage) and quota errors are surfaced as they are, with the context.
+const backendError = (msg: string, ctx: TypedStorageErrorContext, cause: unknown): TypedStorageError => {
+  if (cause instanceof IntegrityError) {
+    return new IntegrityError(msg, { ...ctx, keyId: cause.keyId, cause });
+  }
+  if (isQuotaExceededError(cause)) {
+    return new QuotaExceededError(msg, { ...ctx, cause });
+  }
+  return new StorageBackendError(msg, { ...ctx, cause });
+};
+
+const failureOf = (e: unknown): StorageResult<never> => {
+  if (e instanceof TypedStorageError) {
+    return { ok: false, reason: e.reason, error: e };
+  }
+  return { ok: false, reason: 'backend', error: new StorageBackendError('unexpected failure', { cause: e }) };
+};
+
+// runs an operation, converting its result or error into `StorageResult`.
+const toResult = <T>(op: () => T): StorageResult<T> => {
+  try {
+    return { ok: true, value: op() };
+  } catch (e) {
+    return failureOf(e);
+  }
+};
+
+const toAsyncResult = async <T>(op: () => Promise<T>): Promise<StorageResult<T>> => {
+  try {
+    return { ok: true, value: await op() };
+  } catch (e) {
+    return failureOf(e);
   }
-  return typeof (v as { message: unknown }).message === 'string';
 };
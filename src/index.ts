@@ -1,3 +1,6 @@
 export * from './BaseStorage';
 export * from './Codec';
+export * from './Errors';
 export * from './TypedStorage';
+export * from './Encryption';
+export * from './FileStorage';
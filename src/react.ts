@@ -0,0 +1,193 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import type {
+  AsyncTypedStorage,
+  SetOptions,
+  StorageCodecSpec,
+  StorageGetResultOf,
+  StorageKeys,
+  StorageValTypeOf,
+  TypedStorage,
+} from './TypedStorage';
+
+/*
+ * React integration, provided as the separate entry point `ts-souko/react`.
+ * Only types are imported from the main entry point, so that this module doesn't bundle it again.
+ */
+
+// external store of the value for a key, for `useSyncExternalStore`.
+// the snapshot (decoded value) is cached until a change is notified, since `get` decodes a fresh value every time.
+const createValueStore = <Spec extends StorageCodecSpec, K extends StorageKeys<Spec>>(
+  storage: TypedStorage<Spec>,
+  key: K
+) => {
+  let cache: { value: StorageGetResultOf<Spec, K> } | undefined;
+
+  return {
+    subscribe(onStoreChange: () => void): () => void {
+      // changes may have been made while unsubscribed
+      cache = undefined;
+      const invalidate = () => {
+        cache = undefined;
+        onStoreChange();
+      };
+      // on failure of decoding a changed value, let `getSnapshot` rethrow the error in rendering
+      return storage.subscribe(key, invalidate, { onError: invalidate });
+    },
+    getSnapshot(): StorageGetResultOf<Spec, K> {
+      if (cache === undefined) {
+        cache = { value: storage.get(key) };
+      }
+      return cache.value;
+    },
+  };
+};
+
+/**
+ * Options for {@linkcode useStorageValue}.
+ */
+export interface UseStorageValueOptions<T> {
+  /**
+   * Value used in server-side rendering and hydration, where the storage is not accessed (e.g. `localStorage` is unavailable on the server).
+   * Defaults to the default value for the key (see `withDefault`), or `null` if the key has none.
+   */
+  serverValue?: T;
+}
+
+/**
+ * React hook that returns the value for the `key` in the typed `storage`, along with functions to update and remove it.
+ *
+ * Built on `useSyncExternalStore`, so all components using the same key of the same storage re-render on every change.
+ * Errors on retrieving the value (e.g. `DecodeError`) are thrown in rendering, so they can be caught by error boundaries.
+ * In server-side rendering, the storage is not accessed and `serverValue` in `options` is returned instead.
+ *
+ * @example
+ * ```
+ * import { useStorageValue } from 'ts-souko/react';
+ *
+ * const storage = createTypedStorage({ theme: withDefault(codecs.literal('light', 'dark'), 'light') }, { base: baseStorages.webLocal });
+ *
+ * const ThemeToggle = () => {
+ *   const [theme, setTheme] = useStorageValue(storage, 'theme'); // theme: 'light' | 'dark'
+ *   return <button onClick={() => setTheme(theme === 'light' ? 'dark' : 'light')}>{theme}</button>;
+ * };
+ * ```
+ *
+ * @param storage typed storage wrapper.
+ * @param key key of the value.
+ * @param options options for server-side rendering.
+ * @returns the current value, function to set a value and function to remove the value.
+ */
+export const useStorageValue = <Spec extends StorageCodecSpec, K extends StorageKeys<Spec>>(
+  storage: TypedStorage<Spec>,
+  key: K,
+  { serverValue }: UseStorageValueOptions<StorageGetResultOf<Spec, K>> = {}
+): [StorageGetResultOf<Spec, K>, (value: StorageValTypeOf<Spec, K>, options?: SetOptions) => void, () => void] => {
+  const store = useMemo(() => createValueStore(storage, key), [storage, key]);
+  const getServerSnapshot = useCallback(
+    () => (serverValue !== undefined ? serverValue : storage.defaultValueOf(key)),
+    [storage, key, serverValue]
+  );
+  const value = useSyncExternalStore(store.subscribe, store.getSnapshot, getServerSnapshot);
+
+  const setValue = useCallback(
+    (value: StorageValTypeOf<Spec, K>, options?: SetOptions) => storage.set(key, value, options),
+    [storage, key]
+  );
+  const remove = useCallback(() => storage.remove(key), [storage, key]);
+
+  return [value, setValue, remove];
+};
+
+/**
+ * State of the value retrieved from {@linkcode AsyncTypedStorage}, returned from {@linkcode useAsyncStorageValue}.
+ */
+export type AsyncStorageValueState<T> =
+  | {
+      /** The value is being retrieved. */
+      status: 'loading';
+    }
+  | {
+      /** The value has been retrieved. */
+      status: 'success';
+      value: T;
+    }
+  | {
+      /** Failed to retrieve the value. */
+      status: 'error';
+      error: unknown;
+    };
+
+const loadingState: AsyncStorageValueState<never> = Object.freeze({ status: 'loading' });
+
+// external store of the value for a key in the async storage, for `useSyncExternalStore`.
+const createAsyncValueStore = <Spec extends StorageCodecSpec, K extends StorageKeys<Spec>>(
+  storage: AsyncTypedStorage<Spec>,
+  key: K
+) => {
+  let state: AsyncStorageValueState<StorageGetResultOf<Spec, K>> = loadingState;
+
+  return {
+    subscribe(onStoreChange: () => void): () => void {
+      return storage.watch(
+        key,
+        value => {
+          state = { status: 'success', value };
+          onStoreChange();
+        },
+        {
+          onError: error => {
+            state = { status: 'error', error };
+            onStoreChange();
+          },
+        }
+      );
+    },
+    getSnapshot(): AsyncStorageValueState<StorageGetResultOf<Spec, K>> {
+      return state;
+    },
+  };
+};
+
+/**
+ * Async version of {@linkcode useStorageValue}, for {@linkcode AsyncTypedStorage}.
+ *
+ * Returns the state of the value, which is `'loading'` until the value is retrieved, then `'success'` with the value,
+ * or `'error'` with the error if failed to retrieve or decode the value.
+ * Functions to set and remove the value return promises that resolve when the operations complete.
+ *
+ * @example
+ * ```
+ * import { useAsyncStorageValue } from 'ts-souko/react';
+ *
+ * const Profile = () => {
+ *   const [user, setUser] = useAsyncStorageValue(storage, 'user');
+ *   if (user.status === 'loading') return <Spinner />;
+ *   if (user.status === 'error') return <ErrorMessage error={user.error} />;
+ *   return <UserForm user={user.value} onSave={u => setUser(u)} />;
+ * };
+ * ```
+ *
+ * @param storage async typed storage wrapper.
+ * @param key key of the value.
+ * @returns the state of the value, function to set a value and function to remove the value.
+ */
+export const useAsyncStorageValue = <Spec extends StorageCodecSpec, K extends StorageKeys<Spec>>(
+  storage: AsyncTypedStorage<Spec>,
+  key: K
+): [
+  AsyncStorageValueState<StorageGetResultOf<Spec, K>>,
+  (value: StorageValTypeOf<Spec, K>, options?: SetOptions) => Promise<void>,
+  () => Promise<void>
+] => {
+  // a new store starts from the loading state, so the value for the previous key or storage is never returned.
+  const store = useMemo(() => createAsyncValueStore(storage, key), [storage, key]);
+  const state = useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot);
+
+  const setValue = useCallback(
+    (value: StorageValTypeOf<Spec, K>, options?: SetOptions) => storage.set(key, value, options),
+    [storage, key]
+  );
+  const remove = useCallback(() => storage.remove(key), [storage, key]);
+
+  return [state, setValue, remove];
+};
@@ -1,4 +1,18 @@
-import { baseStorages } from '../src/BaseStorage';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  AsyncBaseStorage,
+  AsyncEnumerableBaseStorage,
+  baseStorages,
+  createCachedStorage,
+  createCookieHeaderSource,
+  createCookieStorage,
+  createIndexedDBStorage,
+  isEnumerable,
+  isSubscribable,
+  toAsyncBaseStorage,
+} from '../src/BaseStorage';
+import { codecs } from '../src/Codec';
+import { createAsyncTypedStorage, createTypedStorage } from '../src/TypedStorage';
 
 describe('baseStorage.inMemory', () => {
   describe('get/set', () => {
@@ -33,6 +47,16 @@ describe('baseStorage.inMemory', () => {
 });
 
 describe('baseStorages.inMemoryScoped', () => {
+  test('keys returns all keys stored in the storage', () => {
+    const s = baseStorages.inMemoryScoped();
+    s.set('foo', 'value');
+    s.set('bar', 'value');
+    expect(s.keys().sort()).toEqual(['bar', 'foo']);
+
+    s.remove('foo');
+    expect(s.keys()).toEqual(['bar']);
+  });
+
   test('every instance has separate key space', () => {
     const s1 = baseStorages.inMemoryScoped();
     const s2 = baseStorages.inMemoryScoped();
@@ -44,3 +68,416 @@ describe('baseStorages.inMemoryScoped', () => {
     expect(s2.get('key')).toEqual('value2');
   });
 });
+
+describe('baseStorages.webLocal', () => {
+  test('keys returns all keys stored in localStorage', () => {
+    localStorage.setItem('foo', 'value');
+    localStorage.setItem('bar', 'value');
+    expect(baseStorages.webLocal.keys().sort()).toEqual(['bar', 'foo']);
+
+    // clean up
+    localStorage.clear();
+  });
+
+  test('subscribe notifies changes made from other browser tabs', () => {
+    const listener = jest.fn();
+    const unsubscribe = baseStorages.webLocal.subscribe(listener);
+
+    window.dispatchEvent(
+      new StorageEvent('storage', { key: 'foo', oldValue: null, newValue: 'value', storageArea: localStorage })
+    );
+    // change in other storage area should be ignored
+    window.dispatchEvent(
+      new StorageEvent('storage', { key: 'bar', oldValue: null, newValue: 'value', storageArea: sessionStorage })
+    );
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ key: 'foo', oldValue: null, newValue: 'value' });
+
+    unsubscribe();
+    window.dispatchEvent(
+      new StorageEvent('storage', { key: 'foo', oldValue: 'value', newValue: null, storageArea: localStorage })
+    );
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('createIndexedDBStorage', () => {
+  test('get retrieves the value which is associated with a key via set, and remove removes it', async () => {
+    const idb = createIndexedDBStorage({ indexedDB: new IDBFactory() });
+    expect(await idb.get('foo')).toBeNull();
+
+    await idb.set('foo', 'value');
+    expect(await idb.get('foo')).toEqual('value');
+    expect(await idb.keys()).toEqual(['foo']);
+
+    await idb.remove('foo');
+    expect(await idb.get('foo')).toBeNull();
+    expect(await idb.keys()).toEqual([]);
+  });
+  test('values persist across storage instances on the same database and object store', async () => {
+    const factory = new IDBFactory();
+    await createIndexedDBStorage({ indexedDB: factory, dbName: 'db', storeName: 'store1' }).set('foo', 'value');
+
+    expect(await createIndexedDBStorage({ indexedDB: factory, dbName: 'db', storeName: 'store1' }).get('foo')).toEqual(
+      'value'
+    );
+    // object stores are created on demand, and have separate key spaces
+    expect(
+      await createIndexedDBStorage({ indexedDB: factory, dbName: 'db', storeName: 'store2' }).get('foo')
+    ).toBeNull();
+  });
+  test('connection is opened once, and reused', async () => {
+    const factory = new IDBFactory();
+    const open = jest.spyOn(factory, 'open');
+    const idb = createIndexedDBStorage({ indexedDB: factory });
+
+    await Promise.all([idb.set('a', '1'), idb.set('b', '2'), idb.get('a')]);
+    await idb.keys();
+    expect(open).toHaveBeenCalledTimes(1);
+  });
+  test('errors in opening database or transactions are propagated', async () => {
+    const failingFactory = new IDBFactory();
+    jest.spyOn(failingFactory, 'open').mockImplementation(() => {
+      throw new Error('open failed');
+    });
+    await expect(createIndexedDBStorage({ indexedDB: failingFactory }).get('foo')).rejects.toThrow('open failed');
+
+    // the object store that is incompatible with the storage (values must contain keys)
+    const factory = new IDBFactory();
+    await new Promise(resolve => {
+      const req = factory.open('ts-souko');
+      req.onupgradeneeded = () => req.result.createObjectStore('kv', { keyPath: 'id' });
+      req.onsuccess = () => {
+        req.result.close();
+        resolve(undefined);
+      };
+    });
+    await expect(createIndexedDBStorage({ indexedDB: factory }).set('foo', 'value')).rejects.toThrow();
+  });
+});
+
+describe('createCookieStorage', () => {
+  test('get/set/remove/keys on document.cookie', () => {
+    const cookie = createCookieStorage();
+    expect(cookie.get('locale')).toBeNull();
+
+    cookie.set('locale', 'ja');
+    cookie.set('consent', 'true');
+    expect(cookie.get('locale')).toEqual('ja');
+    expect(document.cookie).toContain('locale=ja');
+    expect(cookie.keys().sort()).toEqual(['consent', 'locale']);
+
+    cookie.remove('locale');
+    cookie.remove('consent');
+    expect(cookie.get('locale')).toBeNull();
+    expect(document.cookie).toEqual('');
+  });
+
+  test('keys and values are encoded to be safe in cookies', () => {
+    const source = createCookieHeaderSource('');
+    const cookie = createCookieStorage({ source });
+    const key = 'key (with; =special) chars';
+    const value = '{"a":"b; c=d, e","f":"日本語"}';
+
+    cookie.set(key, value);
+    expect(source.setCookieHeaders()[0]).toMatch(
+      /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+=[\x21\x23-\x2B\x2D-\x3A\x3C-\x5B\x5D-\x7E]*;/
+    );
+    expect(cookie.get(key)).toEqual(value);
+    expect(cookie.keys()).toEqual([key]);
+  });
+
+  test('cookies not written by the storage are read as is', () => {
+    const cookie = createCookieStorage({ source: createCookieHeaderSource('a=%E0%A4%A; b=plain') });
+    expect(cookie.get('a')).toEqual('%E0%A4%A');
+    expect(cookie.get('b')).toEqual('plain');
+  });
+
+  test('cookie attributes are applied', () => {
+    const source = createCookieHeaderSource(undefined);
+    const cookie = createCookieStorage({
+      source,
+      path: '/app',
+      domain: 'example.com',
+      maxAge: 3600,
+      sameSite: 'lax',
+      secure: true,
+    });
+    cookie.set('a', '1');
+    cookie.remove('a');
+
+    expect(source.setCookieHeaders()).toEqual([
+      'a=1; Path=/app; Domain=example.com; Max-Age=3600; SameSite=Lax; Secure',
+      'a=; Path=/app; Domain=example.com; Max-Age=0; SameSite=Lax; Secure',
+    ]);
+  });
+
+  test('maxAge less than 1 second is rejected', () => {
+    const source = createCookieHeaderSource('');
+    expect(() => createCookieStorage({ source, maxAge: 0 })).toThrow(/invalid maxAge/);
+    expect(() => createCookieStorage({ source, maxAge: -1 })).toThrow(/invalid maxAge/);
+    expect(() => createCookieStorage({ source, maxAge: 0.5 })).toThrow(/invalid maxAge/);
+  });
+
+  test('writing too large cookie throws an error', () => {
+    const source = createCookieHeaderSource('');
+    const cookie = createCookieStorage({ source, maxSize: 10 });
+
+    cookie.set('key', '1234567');
+    expect(() => cookie.set('key', '12345678')).toThrow(/too large/);
+    expect(() => cookie.set('key', '日本')).toThrow(/too large/);
+    expect(cookie.get('key')).toEqual('1234567');
+    expect(source.setCookieHeaders()).toHaveLength(1);
+  });
+
+  test('usable on the server side with a raw Cookie header', () => {
+    const source = createCookieHeaderSource('locale=en; consent=true; other=x');
+    const cookie = createCookieStorage({ source });
+    expect(cookie.get('locale')).toEqual('en');
+    expect(cookie.keys()).toEqual(['locale', 'consent', 'other']);
+
+    cookie.set('locale', 'ja');
+    cookie.remove('consent');
+    expect(cookie.get('locale')).toEqual('ja');
+    expect(cookie.get('consent')).toBeNull();
+    expect(source.read()).toEqual('locale=ja; other=x');
+    expect(source.setCookieHeaders()).toEqual(['locale=ja; Path=/', 'consent=; Path=/; Max-Age=0']);
+  });
+});
+
+describe('toAsyncBaseStorage', () => {
+  test('converts sync storage into async one', async () => {
+    const base = baseStorages.inMemoryScoped();
+    const asyncBase = toAsyncBaseStorage(base);
+
+    await asyncBase.set('foo', 'value');
+    expect(base.get('foo')).toEqual('value');
+    expect(await asyncBase.get('foo')).toEqual('value');
+    expect(await asyncBase.keys()).toEqual(['foo']);
+
+    await asyncBase.remove('foo');
+    expect(base.get('foo')).toBeNull();
+  });
+
+  test('preserves key enumeration and change notification only if supported', () => {
+    expect(isEnumerable(toAsyncBaseStorage(baseStorages.webLocal))).toBe(true);
+    expect(isSubscribable(toAsyncBaseStorage(baseStorages.webLocal))).toBe(true);
+
+    const plain = toAsyncBaseStorage({ get: () => null, set: () => undefined, remove: () => undefined });
+    expect(isEnumerable(plain)).toBe(false);
+    expect(isSubscribable(plain)).toBe(false);
+  });
+
+  test('sync storage errors are turned into rejections', async () => {
+    const asyncBase = toAsyncBaseStorage({
+      get: () => {
+        throw Error('failed');
+      },
+      set: () => undefined,
+      remove: () => undefined,
+    });
+    await expect(asyncBase.get('foo')).rejects.toThrow('failed');
+  });
+
+  test('one spec can be used across sync and async storages', async () => {
+    const spec = { count: codecs.number };
+    const base = baseStorages.inMemoryScoped();
+    createTypedStorage(spec, { base }).set('count', 1);
+
+    expect(await createAsyncTypedStorage(spec, { base: toAsyncBaseStorage(base) }).get('count')).toEqual(1);
+  });
+});
+
+describe('createCachedStorage', () => {
+  // built-in storages are frozen, so wrap it to spy on methods
+  const spiableStorage = (): AsyncEnumerableBaseStorage => {
+    const inner = baseStorages.inMemoryScopedAsync();
+    return {
+      get: k => inner.get(k),
+      set: (k, v) => inner.set(k, v),
+      remove: k => inner.remove(k),
+      keys: () => inner.keys(),
+    };
+  };
+
+  test('values are readable synchronously after hydration', async () => {
+    const base = baseStorages.inMemoryScopedAsync();
+    await base.set('foo', 'value');
+    const cached = createCachedStorage(base);
+
+    expect(cached.isHydrated()).toBe(false);
+    expect(() => cached.get('foo')).toThrow(/not hydrated/);
+
+    await cached.hydrate();
+    expect(cached.isHydrated()).toBe(true);
+    expect(cached.get('foo')).toEqual('value');
+    expect(cached.keys()).toEqual(['foo']);
+  });
+
+  test('writes are reflected immediately, and persisted in the background', async () => {
+    const base = baseStorages.inMemoryScopedAsync();
+    await base.set('bar', 'value');
+    const cached = createCachedStorage(base);
+    await cached.hydrate();
+
+    cached.set('foo', 'value1');
+    cached.set('foo', 'value2');
+    cached.remove('bar');
+    expect(cached.get('foo')).toEqual('value2');
+    expect(cached.get('bar')).toBeNull();
+    expect(await base.get('bar')).toEqual('value');
+
+    await cached.flush();
+    expect(await base.get('foo')).toEqual('value2');
+    expect(await base.get('bar')).toBeNull();
+  });
+
+  test('writes are coalesced per key', async () => {
+    const base = spiableStorage();
+    const set = jest.spyOn(base, 'set');
+    const cached = createCachedStorage(base);
+    await cached.hydrate();
+
+    cached.set('foo', 'value1');
+    cached.set('foo', 'value2');
+    await cached.flush();
+    expect(set).toHaveBeenCalledTimes(1);
+    expect(set).toHaveBeenCalledWith('foo', 'value2');
+  });
+
+  test('hydrates specified keys if the base storage cannot enumerate keys', async () => {
+    const inner = baseStorages.inMemoryScopedAsync();
+    await inner.set('foo', 'value');
+    await inner.set('bar', 'value');
+    const base: AsyncBaseStorage = {
+      get: k => inner.get(k),
+      set: (k, v) => inner.set(k, v),
+      remove: k => inner.remove(k),
+    };
+    const cached = createCachedStorage(base);
+
+    await expect(cached.hydrate()).rejects.toThrow(/specify keys/);
+    await cached.hydrate(['foo', 'baz']);
+    expect(cached.get('foo')).toEqual('value');
+    expect(cached.get('baz')).toBeNull();
+    expect(cached.isHydrated('foo')).toBe(true);
+    expect(cached.isHydrated()).toBe(false);
+  });
+
+  test('reading keys not hydrated by partial hydration throws', async () => {
+    const base = baseStorages.inMemoryScopedAsync();
+    await base.set('foo', 'value');
+    await base.set('bar', 'value');
+    const cached = createCachedStorage(base);
+
+    await cached.hydrate(['foo']);
+    expect(cached.get('foo')).toEqual('value');
+    expect(() => cached.get('bar')).toThrow(/not hydrated/);
+    expect(() => cached.keys()).toThrow(/not hydrated/);
+
+    await cached.hydrate();
+    expect(cached.get('bar')).toEqual('value');
+  });
+
+  test('writes before hydration are kept, and readable', async () => {
+    const base = baseStorages.inMemoryScopedAsync();
+    await base.set('foo', 'old');
+    await base.set('bar', 'old');
+    const cached = createCachedStorage(base);
+
+    cached.set('foo', 'new');
+    cached.remove('bar');
+    expect(cached.get('foo')).toEqual('new');
+    expect(cached.get('bar')).toBeNull();
+
+    await cached.hydrate();
+    expect(cached.get('foo')).toEqual('new');
+    expect(cached.get('bar')).toBeNull();
+    await cached.flush();
+    expect(await base.get('foo')).toEqual('new');
+    expect(await base.get('bar')).toBeNull();
+  });
+
+  test('writes not persisted yet take precedence over reloaded values', async () => {
+    const base = baseStorages.inMemoryScopedAsync();
+    await base.set('foo', 'old');
+    await base.set('bar', 'old');
+    const cached = createCachedStorage(base);
+    await cached.hydrate();
+
+    cached.set('foo', 'new');
+    await base.set('bar', 'changed externally');
+    await cached.hydrate();
+    expect(cached.get('foo')).toEqual('new');
+    expect(cached.get('bar')).toEqual('changed externally');
+  });
+
+  test('writes being persisted take precedence over reloaded values', async () => {
+    const base = spiableStorage();
+    await base.set('foo', 'old');
+    const cached = createCachedStorage(base);
+    await cached.hydrate();
+
+    // blocks the write until the reload completes
+    const persist = base.set;
+    let release = () => undefined as void;
+    jest.spyOn(base, 'set').mockImplementationOnce(async (k, v) => {
+      await new Promise<void>(resolve => (release = resolve));
+      await persist(k, v);
+    });
+    cached.set('foo', 'new');
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    await cached.hydrate();
+    release();
+    await cached.flush();
+    expect(cached.get('foo')).toEqual('new');
+    expect(await base.get('foo')).toEqual('new');
+  });
+
+  test('values are readable while reloading', async () => {
+    const base = baseStorages.inMemoryScopedAsync();
+    await base.set('foo', 'value');
+    const cached = createCachedStorage(base);
+    await cached.hydrate();
+
+    const reads: (string | null)[] = [];
+    const reloading = cached.hydrate();
+    for (let i = 0; i < 5; i++) {
+      reads.push(cached.get('foo'));
+      await Promise.resolve();
+    }
+    await reloading;
+    expect(reads).toEqual(Array(5).fill('value'));
+  });
+
+  test('flush rejects if writes to the base storage failed', async () => {
+    const base = spiableStorage();
+    jest.spyOn(base, 'set').mockRejectedValueOnce(Error('write failed'));
+    const cached = createCachedStorage(base);
+    await cached.hydrate();
+
+    cached.set('foo', 'value');
+    await expect(cached.flush()).rejects.toThrow('write failed');
+    // the error is reported once
+    await expect(cached.flush()).resolves.toBeUndefined();
+  });
+
+  test('works with TypedStorage', async () => {
+    const base = baseStorages.inMemoryScopedAsync();
+    const cached = createCachedStorage(base);
+    await cached.hydrate();
+
+    const ts = createTypedStorage({ tags: codecs.arrayOf(codecs.string) }, { base: cached });
+    ts.set('tags', ['a', 'b']);
+    expect(ts.get('tags')).toEqual(['a', 'b']);
+
+    await cached.flush();
+    const reloaded = createCachedStorage(base);
+    await reloaded.hydrate();
+    expect(createTypedStorage({ tags: codecs.arrayOf(codecs.string) }, { base: reloaded }).get('tags')).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+});
@@ -1,7 +1,17 @@
 import * as t from 'io-ts';
 import * as ss from 'superstruct';
 import { z } from 'zod';
-import { codecs } from '../src/Codec';
+import { Codec, codecs } from '../src/Codec';
+import { CodecError } from '../src/Errors';
+
+const decodeErrorOf = <T>(codec: Codec<T>, input: string): CodecError => {
+  try {
+    codec.decode(input);
+  } catch (e) {
+    return e as CodecError;
+  }
+  throw Error('decoding should fail');
+};
 
 describe('codecs.string', () => {
   test('encode', () => {
@@ -88,6 +98,72 @@ describe('codecs.boolean', () => {
   });
 });
 
+describe('codecs.date', () => {
+  test('encode-then-decode preserves date', () => {
+    const cases = [new Date(), new Date(0), new Date(-1), new Date('+275760-09-13T00:00:00Z')];
+    for (const c of cases) {
+      expect(codecs.date.decode(codecs.date.encode(c))).toEqual(c);
+    }
+  });
+  test('decodes ISO-8601 date-time with time zone', () => {
+    expect(codecs.date.decode('2021-12-31T23:59:59+09:00')).toEqual(new Date('2021-12-31T14:59:59Z'));
+  });
+  test('throws error if decode a string not representing valid ISO-8601 date-time', () => {
+    const cases = ['2021-12-31', '2021-02-30T00:00:00Z', '2021-12-31T25:00:00Z', 'Fri Dec 31 2021', '0', ''];
+    for (const c of cases) {
+      expect(() => {
+        codecs.date.decode(c);
+      }).toThrow('is not decodable as date');
+    }
+  });
+  test('throws error if encode an invalid date', () => {
+    expect(() => codecs.date.encode(new Date(NaN))).toThrow();
+  });
+});
+
+describe('codecs.url', () => {
+  test('encode-then-decode preserves URL', () => {
+    const u = new URL('https://example.com/path?q=1#hash');
+    expect(codecs.url.decode(codecs.url.encode(u))).toEqual(u);
+  });
+  test('throws error if decode a string not representing absolute URL', () => {
+    const cases = ['/relative/path', 'example.com', ''];
+    for (const c of cases) {
+      expect(() => {
+        codecs.url.decode(c);
+      }).toThrow('is not decodable as URL');
+    }
+  });
+});
+
+describe('codecs.uint8Array', () => {
+  test('encodes to base64', () => {
+    const cases = [
+      { bytes: [], base64: '' },
+      { bytes: [102], base64: 'Zg==' },
+      { bytes: [102, 111], base64: 'Zm8=' },
+      { bytes: [102, 111, 111], base64: 'Zm9v' },
+      { bytes: [0, 255, 62, 63, 128], base64: 'AP8+P4A=' },
+    ];
+    for (const { bytes, base64 } of cases) {
+      expect(codecs.uint8Array.encode(Uint8Array.from(bytes))).toEqual(base64);
+      expect(codecs.uint8Array.decode(base64)).toEqual(Uint8Array.from(bytes));
+    }
+  });
+  test('encode-then-decode preserves binary data', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(codecs.uint8Array.decode(codecs.uint8Array.encode(bytes))).toEqual(bytes);
+  });
+  test('throws error if decode a string not in base64', () => {
+    const cases = ['Zg', 'Zg=', 'Z===', 'Zm9v!A==', '=Zm9'];
+    for (const c of cases) {
+      expect(() => {
+        codecs.uint8Array.decode(c);
+      }).toThrow('is not decodable as base64');
+    }
+  });
+});
+
 describe('codecs.arrayOf', () => {
   test('encode-then-decode preserves array of number', () => {
     const numArrayCodec = codecs.arrayOf(codecs.number);
@@ -114,6 +190,14 @@ describe('codecs.arrayOf', () => {
       boolArrayCodec.decode(input);
     }).toThrow('is not decodable as array of specified type');
   });
+  test('error on decoding an element reports its index as path', () => {
+    const nestedCodec = codecs.arrayOf(codecs.arrayOf(codecs.boolean));
+    const input = JSON.stringify([JSON.stringify(['true']), JSON.stringify(['false', '1'])]);
+
+    const err = decodeErrorOf(nestedCodec, input);
+    expect(err).toBeInstanceOf(CodecError);
+    expect(err.path).toEqual([1, 1]);
+  });
 });
 
 describe('codecs.tupleOf', () => {
@@ -142,6 +226,242 @@ describe('codecs.tupleOf', () => {
   });
 });
 
+describe('compact encoding of nested codecs', () => {
+  test('elements are embedded as native JSON values', () => {
+    const nestedCodec = codecs.arrayOf(codecs.arrayOf(codecs.number));
+    expect(nestedCodec.encode([[1, 2], [3]])).toEqual('[[1,2],[3]]');
+
+    const User = z.object({ userId: z.number(), name: z.string() });
+    const tupCodec = codecs.tupleOf([
+      codecs.jsonWithZod(User),
+      codecs.boolean,
+      codecs.nullable(codecs.string),
+    ] as const);
+    expect(tupCodec.encode([{ userId: 1, name: 'Alice' }, true, null])).toEqual(
+      '[{"userId":1,"name":"Alice"},true,null]'
+    );
+  });
+  test('values not representable as JSON values are embedded as encoded strings', () => {
+    const numsCodec = codecs.arrayOf(codecs.number);
+    const nums = [NaN, -0, Infinity];
+    expect(numsCodec.encode(nums)).toEqual('["NaN","-0","Infinity"]');
+    expect(numsCodec.decode(numsCodec.encode(nums))).toEqual(nums);
+
+    const custom: Codec<number[]> = { encode: a => a.join('/'), decode: s => s.split('/').map(Number) };
+    const customArrCodec = codecs.arrayOf(custom);
+    expect(customArrCodec.encode([[1, 2]])).toEqual('["1/2"]');
+    expect(customArrCodec.decode('["1/2"]')).toEqual([[1, 2]]);
+  });
+  test('encode-then-decode preserves values whose JSON values are strings or null', () => {
+    const strsCodec = codecs.arrayOf(codecs.jsonWithZod(z.string()));
+    expect(strsCodec.decode(strsCodec.encode(['a', '"b"']))).toEqual(['a', '"b"']);
+
+    const nullablesCodec = codecs.arrayOf(codecs.nullable(codecs.nullable(codecs.literal('x', null))));
+    const cases = [null, 'x'] as const;
+    expect(nullablesCodec.decode(nullablesCodec.encode([...cases]))).toEqual(cases);
+  });
+  test('data encoded in the legacy format (elements as encoded strings) are still decodable', () => {
+    const nestedCodec = codecs.arrayOf(codecs.arrayOf(codecs.number));
+    expect(nestedCodec.decode(JSON.stringify([JSON.stringify(['1', '2']), JSON.stringify(['3'])]))).toEqual([
+      [1, 2],
+      [3],
+    ]);
+
+    const User = z.object({ userId: z.number(), name: z.string() });
+    const tupCodec = codecs.tupleOf([codecs.jsonWithZod(User), codecs.boolean] as const);
+    expect(tupCodec.decode(JSON.stringify(['{"userId":1,"name":"Alice"}', 'true']))).toEqual([
+      { userId: 1, name: 'Alice' },
+      true,
+    ]);
+  });
+});
+
+describe('codecs.objectOf', () => {
+  const userCodec = codecs.objectOf(
+    { userId: codecs.number, name: codecs.string },
+    { tags: codecs.arrayOf(codecs.string) }
+  );
+
+  test('encode-then-decode preserves object value', () => {
+    const cases = [
+      { userId: 1, name: 'Alice' },
+      { userId: 2, name: 'Bob', tags: ['admin'] },
+    ];
+    for (const c of cases) {
+      expect(userCodec.decode(userCodec.encode(c))).toEqual(c);
+    }
+  });
+  test('optional fields with undefined value and unknown fields are dropped', () => {
+    const encoded = userCodec.encode({ userId: 1, name: 'Alice', tags: undefined });
+    expect(JSON.parse(encoded)).toEqual({ userId: 1, name: 'Alice' });
+    expect(userCodec.decode('{"userId":"1","name":"Alice","extra":"x"}')).toEqual({ userId: 1, name: 'Alice' });
+  });
+  test('throws error when decoding a string not parsable as object', () => {
+    const cases = ['str', '1', '["1","Alice"]', ':not-a-json:', 'null'];
+    for (const c of cases) {
+      expect(() => {
+        userCodec.decode(c);
+      }).toThrow('is not decodable as object');
+    }
+  });
+  test('throws error when decoding a string whose required field is missing or not decodable', () => {
+    const cases = [
+      { input: '{"userId":"1"}', path: ['name'] },
+      { input: '{"userId":"one","name":"Alice"}', path: ['userId'] },
+      { input: '{"userId":"1","name":"Alice","tags":"nope"}', path: ['tags'] },
+    ];
+    for (const { input, path } of cases) {
+      const err = decodeErrorOf(userCodec, input);
+      expect(err.message).toMatch('is not decodable as object of specified type');
+      expect(err.path).toEqual(path);
+    }
+  });
+});
+
+describe('codecs.recordOf', () => {
+  const scoresCodec = codecs.recordOf(codecs.number);
+
+  test('encode-then-decode preserves record value', () => {
+    const cases: Record<string, number>[] = [{}, { alice: 100, bob: -0.5 }, JSON.parse('{"__proto__":1}')];
+    for (const c of cases) {
+      expect(scoresCodec.decode(scoresCodec.encode(c))).toEqual(c);
+    }
+  });
+  test('throws error when decoding a string not parsable as record', () => {
+    const cases = ['str', '1', '["1"]', ':not-a-json:', 'null'];
+    for (const c of cases) {
+      expect(() => {
+        scoresCodec.decode(c);
+      }).toThrow('is not decodable as record');
+    }
+  });
+  test('throws error when decoding a string some value of which is not decodable by inner codec', () => {
+    const err = decodeErrorOf(scoresCodec, '{"alice":"100","bob":"?"}');
+    expect(err.message).toMatch('is not decodable as record of specified type');
+    expect(err.path).toEqual(['bob']);
+  });
+});
+
+describe('codecs.mapOf', () => {
+  const mapCodec = codecs.mapOf(codecs.number, codecs.date);
+
+  test('encode-then-decode preserves map', () => {
+    const m = new Map([
+      [2, new Date(0)],
+      [1, new Date()],
+    ]);
+    const decoded = mapCodec.decode(mapCodec.encode(m));
+    expect(decoded).toEqual(m);
+    expect([...decoded.keys()]).toEqual([2, 1]);
+  });
+  test('throws error when decoding a string not parsable as map', () => {
+    const cases = ['str', '{"1":"1970-01-01T00:00:00.000Z"}', 'null'];
+    for (const c of cases) {
+      expect(() => {
+        mapCodec.decode(c);
+      }).toThrow('is not decodable as map');
+    }
+  });
+  test('throws error when decoding a string some entry of which is not decodable', () => {
+    const input = JSON.stringify([JSON.stringify(['1', '1970-01-01T00:00:00.000Z']), JSON.stringify(['2', '?'])]);
+    const err = decodeErrorOf(mapCodec, input);
+    expect(err.message).toMatch('is not decodable as map of specified types');
+    expect(err.path).toEqual([1, 1]);
+  });
+});
+
+describe('codecs.setOf', () => {
+  const setCodec = codecs.setOf(codecs.string);
+
+  test('encode-then-decode preserves set', () => {
+    const set = new Set(['foo', 'bar', '']);
+    expect(setCodec.decode(setCodec.encode(set))).toEqual(set);
+  });
+  test('throws error when decoding a string not parsable as set', () => {
+    const cases = ['str', '[1,2]', '{}', 'null'];
+    for (const c of cases) {
+      expect(() => {
+        setCodec.decode(c);
+      }).toThrow('is not decodable as set');
+    }
+  });
+});
+
+describe('codecs.literal / codecs.enumOf', () => {
+  const themeCodec = codecs.enumOf(['light', 'dark', 'system'] as const);
+  const mixedCodec = codecs.literal('one', 2, true, null);
+
+  test('encode-then-decode preserves literal', () => {
+    for (const c of ['light', 'dark', 'system'] as const) {
+      expect(themeCodec.encode(c)).toEqual(c);
+      expect(themeCodec.decode(themeCodec.encode(c))).toEqual(c);
+    }
+    for (const c of ['one', 2, true, null] as const) {
+      expect(mixedCodec.decode(mixedCodec.encode(c))).toEqual(c);
+    }
+  });
+  test('throws error when decoding a string not representing any of literals', () => {
+    const cases = ['Light', '"light"', '', 'null'];
+    for (const c of cases) {
+      expect(() => {
+        themeCodec.decode(c);
+      }).toThrow('is not decodable as one of "light", "dark", "system"');
+    }
+  });
+  test('throws error when encoding a value not in literals', () => {
+    expect(() => themeCodec.encode('blue' as 'light')).toThrow();
+  });
+  test('throws error when literals representing the same string are specified', () => {
+    expect(() => codecs.literal('1', 1)).toThrow();
+  });
+});
+
+describe('codecs.nullable / codecs.optional', () => {
+  test('encode-then-decode preserves value', () => {
+    const nullableStr = codecs.nullable(codecs.string);
+    const cases = [null, '', 'null', '\u0001n', '\u0001\u0001n'];
+    for (const c of cases) {
+      expect(nullableStr.decode(nullableStr.encode(c))).toEqual(c);
+    }
+
+    const optionalNullableStr = codecs.optional(nullableStr);
+    for (const c of [undefined, ...cases]) {
+      expect(optionalNullableStr.decode(optionalNullableStr.encode(c))).toEqual(c);
+    }
+  });
+  test('encoded strings of inner codec are kept unless they start with the mark', () => {
+    const nullableNum = codecs.nullable(codecs.number);
+    expect(nullableNum.encode(42)).toEqual('42');
+    expect(nullableNum.decode('42')).toEqual(42);
+  });
+});
+
+describe('codecs.unionOf', () => {
+  const idCodec = codecs.unionOf({ num: codecs.number, str: codecs.string }, v =>
+    typeof v === 'number' ? 'num' : 'str'
+  );
+
+  test('encode-then-decode preserves members of different codecs', () => {
+    const cases = [42, '42', '', -0];
+    for (const c of cases) {
+      expect(idCodec.decode(idCodec.encode(c))).toEqual(c);
+    }
+  });
+  test('throws error when decoding a string not parsable as tagged union', () => {
+    const cases = ['42', '["num"]', '["bool","true"]', '[1,"42"]', ':not-a-json:'];
+    for (const c of cases) {
+      expect(() => {
+        idCodec.decode(c);
+      }).toThrow('is not decodable as tagged union');
+    }
+  });
+  test('throws error when decoding a string whose value is not decodable by the codec for its tag', () => {
+    const err = decodeErrorOf(idCodec, '["num","?"]');
+    expect(err.message).toMatch('is not decodable as tagged union of specified types');
+    expect(err.path).toEqual(['num']);
+  });
+});
+
 describe('codecs.jsonWithIoTs', () => {
   const User = t.type({
     userId: t.number,
@@ -168,6 +488,13 @@ describe('codecs.jsonWithIoTs', () => {
       }).toThrow();
     }
   });
+
+  test('error on decoding invalid JSON reports path to erroneous part', () => {
+    const err = decodeErrorOf(userCodec, JSON.stringify({ userId: '100', name: 'John' }));
+    expect(err).toBeInstanceOf(CodecError);
+    expect(err.path).toEqual(['userId']);
+    expect(err.cause).toBeDefined();
+  });
 });
 
 describe('codecs.jsonWithSuperstruct', () => {
@@ -196,6 +523,13 @@ describe('codecs.jsonWithSuperstruct', () => {
       }).toThrow();
     }
   });
+
+  test('error on decoding invalid JSON reports path to erroneous part', () => {
+    const err = decodeErrorOf(userCodec, JSON.stringify({ userId: '100', name: 'John' }));
+    expect(err).toBeInstanceOf(CodecError);
+    expect(err.path).toEqual(['userId']);
+    expect(err.cause).toBeDefined();
+  });
 });
 
 describe('codecs.jsonWithZod', () => {
@@ -224,4 +558,149 @@ describe('codecs.jsonWithZod', () => {
       }).toThrow();
     }
   });
+
+  test('error on decoding invalid JSON reports path to erroneous part', () => {
+    const err = decodeErrorOf(userCodec, JSON.stringify({ userId: '100', name: 'John' }));
+    expect(err).toBeInstanceOf(CodecError);
+    expect(err.path).toEqual(['userId']);
+    expect(err.cause).toBeDefined();
+  });
+});
+
+describe('codecs.versioned', () => {
+  const SettingsV1 = z.object({ theme: z.string() });
+  const SettingsV2 = ss.object({ theme: ss.enums(['light', 'dark']) });
+  const SettingsV3 = t.type({ theme: t.string, fontSize: t.number });
+
+  const v1Codec = codecs.versioned(codecs.jsonWithZod(SettingsV1));
+  const v3Codec = v1Codec
+    .migrate(codecs.jsonWithSuperstruct(SettingsV2), v1 => ({
+      theme: v1.theme === 'dark' ? ('dark' as const) : ('light' as const),
+    }))
+    .migrate(codecs.jsonWithIoTs(SettingsV3), v2 => ({ ...v2, fontSize: 14 }));
+
+  test('encode-then-decode preserves value', () => {
+    const v = { theme: 'dark' as const, fontSize: 16 };
+    expect(v3Codec.decode(v3Codec.encode(v))).toEqual(v);
+  });
+  test('encoded string is tagged with current version', () => {
+    expect(v1Codec.version).toBe(1);
+    expect(v3Codec.version).toBe(3);
+    expect(v3Codec.versionOf(v3Codec.encode({ theme: 'light', fontSize: 12 }))).toBe(3);
+  });
+  test('values in older versions are migrated on decoding', () => {
+    expect(v3Codec.decode(v1Codec.encode({ theme: 'dark' }))).toEqual({ theme: 'dark', fontSize: 14 });
+    expect(v3Codec.decode(v1Codec.encode({ theme: 'blue' }))).toEqual({ theme: 'light', fontSize: 14 });
+  });
+  test('untagged strings are regarded as encoded in the initial version', () => {
+    expect(v3Codec.versionOf('{"theme":"dark"}')).toBe(1);
+    expect(v3Codec.decode('{"theme":"dark"}')).toEqual({ theme: 'dark', fontSize: 14 });
+  });
+  test('initial version can be specified', () => {
+    const c = codecs.versioned(codecs.string, { initialVersion: 0 }).migrate(codecs.number, s => s.length);
+    expect(c.version).toBe(1);
+    expect(c.decode('abc')).toBe(3);
+  });
+  test('throws error when decoding a string encoded in unknown version', () => {
+    const future = v3Codec.migrate(codecs.string, v => v.theme);
+    expect(() => v3Codec.decode(future.encode('dark'))).toThrow('unknown version 4');
+  });
+  test('throws error when decoding a string that is not decodable in its version', () => {
+    expect(() => v3Codec.decode('{"color":"dark"}')).toThrow();
+  });
+});
+
+describe('codecs.transform', () => {
+  type UserId = number & { __brand: 'UserId' };
+  const userIdCodec = codecs.transform(
+    codecs.number,
+    n => n as UserId,
+    (id: UserId) => id
+  );
+  const csvCodec = codecs.transform(
+    codecs.string,
+    s => s.split(','),
+    (a: string[]) => a.join(',')
+  );
+
+  test('encode-then-decode preserves value', () => {
+    const id = 42 as UserId;
+    expect(userIdCodec.encode(id)).toEqual('42');
+    expect(userIdCodec.decode(userIdCodec.encode(id))).toEqual(id);
+    expect(csvCodec.decode(csvCodec.encode(['a', 'b']))).toEqual(['a', 'b']);
+  });
+  test('throws error when underlying codec or conversion fails on decoding', () => {
+    expect(() => userIdCodec.decode('?')).toThrow('is not decodable as number');
+
+    const failing = codecs.transform(
+      codecs.string,
+      () => {
+        throw Error('conversion failed');
+      },
+      (s: string) => s
+    );
+    expect(() => failing.decode('a')).toThrow(CodecError);
+    expect(() => failing.decode('a')).toThrow('conversion failed');
+  });
+});
+
+describe('codecs.refine', () => {
+  const positiveIntCodec = codecs.refine(codecs.number, n => Number.isInteger(n) && n > 0, 'positive integer');
+
+  test('decodes values satisfying predicate', () => {
+    expect(positiveIntCodec.decode('1')).toEqual(1);
+  });
+  test('throws error when decoded value does not satisfy predicate', () => {
+    const cases = ['0', '-1', '1.5', 'NaN'];
+    for (const c of cases) {
+      expect(() => {
+        positiveIntCodec.decode(c);
+      }).toThrow('is not decodable as positive integer');
+    }
+  });
+  test('narrows type by type guard', () => {
+    const nonNullCodec = codecs.refine(codecs.nullable(codecs.string), (s): s is string => s !== null);
+    const s: string = nonNullCodec.decode('str');
+    expect(s).toEqual('str');
+    expect(() => nonNullCodec.decode(codecs.nullable(codecs.string).encode(null))).toThrow();
+  });
+});
+
+describe('codecs.pipe', () => {
+  const reversed: Codec<string> = {
+    encode: s => [...s].reverse().join(''),
+    decode: s => [...s].reverse().join(''),
+  };
+  const reversedNumCodec = codecs.pipe(reversed, codecs.number);
+
+  test('outer codec is applied after inner codec on encoding, and before on decoding', () => {
+    expect(reversedNumCodec.encode(123)).toEqual('321');
+    expect(reversedNumCodec.decode('321')).toEqual(123);
+  });
+});
+
+describe('codecs.compression / codecs.compressed', () => {
+  const layer = codecs.compression({ threshold: 10 });
+  const large = 'abc'.repeat(100);
+
+  test('encode-then-decode preserves string', () => {
+    const cases = ['', 'short', large, '\u0001zshort', '\u0001rshort', `\u0001z${large}`];
+    for (const c of cases) {
+      expect(layer.decode(layer.encode(c))).toEqual(c);
+    }
+  });
+  test('large strings are compressed, and short strings are stored as is', () => {
+    expect(layer.encode(large).length).toBeLessThan(large.length);
+    expect(layer.encode('short')).toEqual('short');
+  });
+  test('strings stored without compression are decodable', () => {
+    expect(layer.decode(large)).toEqual(large);
+  });
+  test('compressed codec compresses encoded strings of inner codec', () => {
+    const arrCodec = codecs.compressed(codecs.arrayOf(codecs.number));
+    const arr = Array.from({ length: 1000 }, (_, i) => i % 10);
+    const encoded = arrCodec.encode(arr);
+    expect(encoded.length).toBeLessThan(codecs.arrayOf(codecs.number).encode(arr).length);
+    expect(arrCodec.decode(encoded)).toEqual(arr);
+  });
 });
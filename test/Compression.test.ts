@@ -0,0 +1,51 @@
+import { compress, decompress } from '../src/Compression';
+
+const randomString = (len: number, alphabet: (r: number) => number): string => {
+  return Array.from({ length: len }, () => String.fromCharCode(alphabet(Math.random()))).join('');
+};
+
+describe('compress/decompress', () => {
+  test('compress-then-decompress preserves string', () => {
+    const cases = [
+      '',
+      'a',
+      'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+      'TOBEORNOTTOBEORTOBEORNOT',
+      '日本語のテキスト、日本語のテキスト',
+      '😀 emoji 😀 and lone surrogates \ud800 \udfff',
+      '\u0000\u0001\uffff',
+      JSON.stringify(Array.from({ length: 100 }, (_, i) => ({ id: i, name: `user${i}` }))),
+    ];
+    for (const c of cases) {
+      expect(decompress(compress(c))).toEqual(c);
+    }
+  });
+  test('compress-then-decompress preserves random strings', () => {
+    for (let i = 0; i < 100; i++) {
+      const s = randomString(Math.floor(Math.random() * 300), r =>
+        r < 0.5 ? 97 + Math.floor(r * 8) : Math.floor(r * 65536)
+      );
+      expect(decompress(compress(s))).toEqual(s);
+    }
+  });
+  test('compressed strings contain neither control characters nor surrogates', () => {
+    const s = randomString(1000, r => Math.floor(r * 65536));
+    const compressed = compress(s);
+    for (let i = 0; i < compressed.length; i++) {
+      const c = compressed.charCodeAt(i);
+      expect(c >= 32 && c < 0xd800).toBe(true);
+    }
+  });
+  test('compression reduces size of repetitive strings', () => {
+    const s = JSON.stringify(
+      Array.from({ length: 1000 }, (_, i) => ({ id: i, name: `user${i}`, active: i % 2 === 0 }))
+    );
+    expect(compress(s).length).toBeLessThan(s.length / 4);
+  });
+  test('decompress throws error if input is corrupted', () => {
+    const cases = ['\u0000', compress('TOBEORNOTTOBEORTOBEORNOT').slice(0, 3), '\uffff\uffff'];
+    for (const c of cases) {
+      expect(() => decompress(c)).toThrow('input is not a valid compressed string');
+    }
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * @jest-environment node
+ */
+import { webcrypto } from 'crypto';
+import { baseStorages } from '../src/BaseStorage';
+import { codecs } from '../src/Codec';
+import { createEncryptedStorage } from '../src/Encryption';
+import { IntegrityError } from '../src/Errors';
+import { createAsyncTypedStorage } from '../src/TypedStorage';
+
+const crypto = webcrypto as unknown as Crypto;
+
+// WebCrypto API of Node.js is available since Node 15
+const describeIfWebCrypto = webcrypto !== undefined ? describe : describe.skip;
+
+const generateKey = () => {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+    'encrypt',
+    'decrypt',
+  ]) as Promise<CryptoKey>;
+};
+
+describeIfWebCrypto('createEncryptedStorage', () => {
+  const spec = { token: codecs.string, user: codecs.objectOf({ id: codecs.number, email: codecs.string }) };
+
+  test('values are stored encrypted, and decrypted on retrieval', async () => {
+    const base = baseStorages.inMemoryScoped();
+    const encrypted = createEncryptedStorage(base, { keys: { k1: await generateKey() }, currentKeyId: 'k1', crypto });
+    const ts = createAsyncTypedStorage(spec, { base: encrypted });
+
+    await ts.set('token', 'secret-token');
+    await ts.set('user', { id: 1, email: 'alice@example.com' });
+    expect(await ts.get('token')).toEqual('secret-token');
+    expect(await ts.get('user')).toEqual({ id: 1, email: 'alice@example.com' });
+
+    const stored = base.get('token') as string;
+    expect(stored).not.toContain('secret-token');
+    expect(stored.split('.')[0]).toEqual('k1');
+  });
+  test('each value is encrypted with a fresh IV', async () => {
+    const base = baseStorages.inMemoryScoped();
+    const encrypted = createEncryptedStorage(base, { keys: { k1: await generateKey() }, currentKeyId: 'k1', crypto });
+
+    await encrypted.set('a', 'same value');
+    await encrypted.set('b', 'same value');
+    expect(base.get('a')?.split('.')[1]).not.toEqual(base.get('b')?.split('.')[1]);
+  });
+  test('tampered values are reported by IntegrityError', async () => {
+    const base = baseStorages.inMemoryScoped();
+    const encrypted = createEncryptedStorage(base, { keys: { k1: await generateKey() }, currentKeyId: 'k1', crypto });
+    const ts = createAsyncTypedStorage(spec, { base: encrypted, keyPrefix: 'app_' });
+    await ts.set('token', 'secret-token');
+
+    const [keyId, iv, ciphertext] = (base.get('app_token') as string).split('.');
+    const flipped = ciphertext[0] === 'A' ? 'B' : 'A';
+    base.set('app_token', [keyId, iv, flipped + ciphertext.slice(1)].join('.'));
+
+    await expect(ts.get('token')).rejects.toThrow(IntegrityError);
+    const res = await ts.safeGet('token');
+    expect(res).toMatchObject({ ok: false, reason: 'integrity', error: { key: 'token', physicalKey: 'app_token' } });
+
+    base.set('app_token', 'not encrypted');
+    await expect(ts.get('token')).rejects.toThrow(IntegrityError);
+  });
+  test('values encrypted with unknown keys are reported by IntegrityError', async () => {
+    const base = baseStorages.inMemoryScoped();
+    await createEncryptedStorage(base, { keys: { k1: await generateKey() }, currentKeyId: 'k1', crypto }).set(
+      'app_token',
+      'v'
+    );
+
+    const encrypted = createEncryptedStorage(base, { keys: { k2: await generateKey() }, currentKeyId: 'k2', crypto });
+    const ts = createAsyncTypedStorage(spec, { base: encrypted, keyPrefix: 'app_' });
+    await expect(encrypted.get('app_token')).rejects.toThrow(IntegrityError);
+    const res = await ts.safeGet('token');
+    expect(res).toMatchObject({
+      ok: false,
+      reason: 'integrity',
+      error: { key: 'token', physicalKey: 'app_token', keyId: 'k1' },
+    });
+  });
+  test('values moved to other keys fail to be decrypted', async () => {
+    const base = baseStorages.inMemoryScoped();
+    const encrypted = createEncryptedStorage(base, { keys: { k1: await generateKey() }, currentKeyId: 'k1', crypto });
+    await encrypted.set('a', 'value');
+
+    base.set('b', base.get('a') as string);
+    await expect(encrypted.get('b')).rejects.toThrow(IntegrityError);
+  });
+  test('values encrypted with old keys are decryptable after key rotation', async () => {
+    const [k1, k2] = [await generateKey(), await generateKey()];
+    const base = baseStorages.inMemoryScoped();
+    await createEncryptedStorage(base, { keys: { k1 }, currentKeyId: 'k1', crypto }).set('a', 'value');
+
+    const rotated = createEncryptedStorage(base, { keys: { k1, k2 }, currentKeyId: 'k2', crypto });
+    expect(await rotated.get('a')).toEqual('value');
+    expect(base.get('a')?.startsWith('k1.')).toBe(true);
+
+    const reencrypting = createEncryptedStorage(base, {
+      keys: { k1, k2 },
+      currentKeyId: 'k2',
+      crypto,
+      reencryptOnRead: true,
+    });
+    expect(await reencrypting.get('a')).toEqual('value');
+    expect(base.get('a')?.startsWith('k2.')).toBe(true);
+
+    const withoutOldKey = createEncryptedStorage(base, { keys: { k1 }, currentKeyId: 'k1', crypto });
+    await expect(withoutOldKey.get('a')).rejects.toThrow("unknown key 'k2'");
+  });
+  test('keys can be enumerated if the base storage is enumerable', async () => {
+    const base = baseStorages.inMemoryScoped();
+    const encrypted = createEncryptedStorage(base, { keys: { k1: await generateKey() }, currentKeyId: 'k1', crypto });
+    await encrypted.set('a', 'value');
+    expect(await encrypted.keys()).toEqual(['a']);
+  });
+});
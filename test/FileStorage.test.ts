@@ -0,0 +1,198 @@
+/**
+ * @jest-environment node
+ */
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { codecs } from '../src/Codec';
+import { createAsyncFileStorage, createFileStorage, FileStorageOptions } from '../src/FileStorage';
+import { createAsyncTypedStorage, createTypedStorage } from '../src/TypedStorage';
+
+const fsPromises = fs.promises;
+
+let workDir: string;
+
+beforeEach(() => {
+  workDir = fs.mkdtempSync(join(tmpdir(), 'ts-souko-'));
+});
+
+afterEach(() => {
+  fs.rmdirSync(workDir, { recursive: true });
+});
+
+const layouts = (): [string, () => FileStorageOptions][] => [
+  ['directory', () => ({ layout: 'directory', path: join(workDir, 'store') })],
+  ['jsonFile', () => ({ layout: 'jsonFile', path: join(workDir, 'data', 'store.json') })],
+];
+
+describe('createFileStorage', () => {
+  describe.each(layouts())('layout: %s', (_, optionsOf) => {
+    test('get/set/remove/keys', () => {
+      const s = createFileStorage(fs, optionsOf());
+      expect(s.get('a')).toBeNull();
+      expect(s.keys()).toEqual([]);
+
+      s.set('a', 'hoge');
+      s.set('b', 'fuga');
+      s.set('a', 'piyo');
+      expect(s.get('a')).toEqual('piyo');
+      expect(s.keys().sort()).toEqual(['a', 'b']);
+
+      s.remove('a');
+      s.remove('not-exist');
+      expect(s.get('a')).toBeNull();
+      expect(s.keys()).toEqual(['b']);
+    });
+
+    test('keys with special characters round-trip', () => {
+      const s = createFileStorage(fs, optionsOf());
+      const keys = [
+        '',
+        'Key',
+        'key',
+        '../escape',
+        'a/b\\c',
+        'CON',
+        '.',
+        '%41',
+        'κλειδί',
+        '🔑',
+        '__proto__',
+        '\ud800',
+        'a\udc00',
+      ];
+      keys.forEach((k, i) => s.set(k, `v${i}`));
+
+      keys.forEach((k, i) => expect(s.get(k)).toEqual(`v${i}`));
+      expect(s.keys().sort()).toEqual([...keys].sort());
+    });
+
+    test('values persist across storage instances', () => {
+      createFileStorage(fs, optionsOf()).set('k', 'v');
+      expect(createFileStorage(fs, optionsOf()).get('k')).toEqual('v');
+    });
+
+    test('no temporary files are left', () => {
+      const s = createFileStorage(fs, optionsOf());
+      s.set('a', 'hoge');
+      s.set('b', 'fuga');
+      s.remove('a');
+
+      const files = fs
+        .readdirSync(workDir, { withFileTypes: true })
+        .flatMap(e => (e.isDirectory() ? fs.readdirSync(join(workDir, e.name)) : [e.name]));
+      expect(files.some(f => f.endsWith('.tmp'))).toBe(false);
+    });
+
+    test('works with TypedStorage', () => {
+      const ts = createTypedStorage(
+        { count: codecs.number, tags: codecs.arrayOf(codecs.string) },
+        { base: createFileStorage(fs, optionsOf()) }
+      );
+      ts.set('count', 42);
+      ts.set('tags', ['a', 'b']);
+      expect(ts.get('count')).toEqual(42);
+      expect(ts.get('tags')).toEqual(['a', 'b']);
+    });
+  });
+
+  test.each(layouts())('layout: %s: temporary file is removed if rename failed', (_, optionsOf) => {
+    const failingFs = {
+      ...fs,
+      renameSync: () => {
+        throw Error('rename failed');
+      },
+    };
+    const s = createFileStorage(failingFs, optionsOf());
+    expect(() => s.set('a', 'hoge')).toThrow('rename failed');
+
+    const files = fs
+      .readdirSync(workDir, { withFileTypes: true })
+      .flatMap(e => (e.isDirectory() ? fs.readdirSync(join(workDir, e.name)) : [e.name]));
+    expect(files).toEqual([]);
+  });
+
+  test('directory layout: files of other names are ignored on enumeration', () => {
+    const dir = join(workDir, 'store');
+    const s = createFileStorage(fs, { layout: 'directory', path: dir });
+    s.set('a', 'hoge');
+    fs.writeFileSync(join(dir, 'README'), 'not a value');
+    fs.writeFileSync(join(dir, 'k_b.abc123.tmp'), 'temporary file of an ongoing write');
+
+    expect(s.keys()).toEqual(['a']);
+  });
+
+  test('jsonFile layout: stores values in a JSON object', () => {
+    const path = join(workDir, 'store.json');
+    const s = createFileStorage(fs, { layout: 'jsonFile', path });
+    s.set('a', 'hoge');
+    s.set('__proto__', 'fuga');
+
+    expect(JSON.parse(fs.readFileSync(path, 'utf8'))).toEqual(JSON.parse('{"a":"hoge","__proto__":"fuga"}'));
+  });
+
+  test('jsonFile layout: throws if the file is not a JSON object', () => {
+    const path = join(workDir, 'store.json');
+    fs.writeFileSync(path, '[1, 2, 3]');
+    const s = createFileStorage(fs, { layout: 'jsonFile', path });
+
+    expect(() => s.get('a')).toThrow();
+  });
+});
+
+describe('createAsyncFileStorage', () => {
+  describe.each(layouts())('layout: %s', (_, optionsOf) => {
+    test('get/set/remove/keys', async () => {
+      const s = createAsyncFileStorage(fsPromises, optionsOf());
+      expect(await s.get('a')).toBeNull();
+      expect(await s.keys()).toEqual([]);
+
+      await s.set('a', 'hoge');
+      await s.set('B', 'fuga');
+      expect(await s.get('a')).toEqual('hoge');
+      expect((await s.keys()).sort()).toEqual(['B', 'a']);
+
+      await s.remove('a');
+      await s.remove('not-exist');
+      expect(await s.get('a')).toBeNull();
+      expect(await s.keys()).toEqual(['B']);
+    });
+
+    test('concurrent writes are not lost', async () => {
+      const s = createAsyncFileStorage(fsPromises, optionsOf());
+      const keys = Array.from({ length: 10 }, (_, i) => `key${i}`);
+      await Promise.all(keys.map(k => s.set(k, k)));
+
+      expect((await s.keys()).sort()).toEqual([...keys].sort());
+    });
+
+    test('works with AsyncTypedStorage', async () => {
+      const ts = createAsyncTypedStorage(
+        { lastRun: codecs.date },
+        { base: createAsyncFileStorage(fsPromises, optionsOf()) }
+      );
+      const d = new Date('2021-12-01T00:00:00.000Z');
+      await ts.set('lastRun', d);
+      expect(await ts.get('lastRun')).toEqual(d);
+    });
+  });
+
+  test('temporary file is removed if rename failed', async () => {
+    const failingFs = {
+      ...fsPromises,
+      rename: () => Promise.reject(Error('rename failed')),
+    };
+    const dir = join(workDir, 'store');
+    const s = createAsyncFileStorage(failingFs, { layout: 'directory', path: dir });
+    await expect(s.set('a', 'hoge')).rejects.toThrow('rename failed');
+
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  test('shares files with the sync version', async () => {
+    const options: FileStorageOptions = { layout: 'directory', path: join(workDir, 'store') };
+    createFileStorage(fs, options).set('Key/1', 'v');
+
+    expect(await createAsyncFileStorage(fsPromises, options).get('Key/1')).toEqual('v');
+  });
+});
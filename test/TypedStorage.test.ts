@@ -1,6 +1,32 @@
-import { baseStorages } from '../src/BaseStorage';
-import { codecs } from '../src/Codec';
-import { createTypedStorage } from '../src/TypedStorage';
+import { z } from 'zod';
+import { BaseStorage, BaseStorageChangeListener, baseStorages, SubscribableBaseStorage } from '../src/BaseStorage';
+import { Codec, codecs } from '../src/Codec';
+import { CodecError, DecodeError, EncodeError, QuotaExceededError, StorageBackendError } from '../src/Errors';
+import { createAsyncTypedStorage, createTypedStorage, withDefault, withPriority, withTTL } from '../src/TypedStorage';
+
+// in-memory storage that throws `QuotaExceededError` like web storages if the total length of keys and values exceeds `capacity`.
+const limitedStorage = (capacity: number): BaseStorage => {
+  const m = new Map<string, string>();
+  return {
+    get: k => m.get(k) ?? null,
+    set: (k, v) => {
+      const others = Array.from(m).reduce((sum, [k2, v2]) => (k2 === k ? sum : sum + k2.length + v2.length), 0);
+      if (others + k.length + v.length > capacity) {
+        throw new DOMException('quota exceeded', 'QuotaExceededError');
+      }
+      m.set(k, v);
+    },
+    remove: k => {
+      m.delete(k);
+    },
+  };
+};
+
+// clock that advances by 1ms on every call.
+const tickingClock = () => {
+  let t = 0;
+  return () => ++t;
+};
 
 describe('TypedStorage', () => {
   describe('get/set', () => {
@@ -23,6 +49,22 @@ describe('TypedStorage', () => {
       expect(() => ts.get('key')).toThrow();
     });
   });
+  describe('literal and nullable values', () => {
+    test('values of literal and nullable types can be stored', () => {
+      const ts = createTypedStorage(
+        { theme: codecs.enumOf(['light', 'dark', 'system'] as const), limit: codecs.nullable(codecs.number) },
+        { base: baseStorages.inMemoryScoped() }
+      );
+      ts.set('theme', 'dark');
+      ts.set('limit', null);
+      expect(ts.get('theme')).toEqual('dark');
+      expect(ts.get('limit')).toBeNull();
+
+      // @ts-expect-error values out of enum are rejected
+      expect(() => ts.set('theme', 'blue')).toThrow();
+    });
+  });
+
   describe('remove', () => {
     const ts = createTypedStorage({ key1: codecs.number, key2: codecs.number }, { base: baseStorages.inMemory });
 
@@ -59,4 +101,1290 @@ describe('TypedStorage', () => {
       expect(baseStorages.inMemory.get('key')).toBeNull();
     });
   });
+
+  describe('scopes', () => {
+    const spec = { draft: codecs.string, count: codecs.number };
+
+    test('keys in nested scopes are prefixed by composed prefixes', () => {
+      const base = baseStorages.inMemoryScoped();
+      const ts = createTypedStorage(spec, { base, keyPrefix: 'app_' });
+      const workspace = ts.scope('user', 42).scope('workspace', 7);
+      workspace.set('draft', 'hello');
+
+      expect(base.get('app_:user:42::workspace:7:draft')).toEqual('hello');
+      expect(workspace.get('draft')).toEqual('hello');
+      expect(ts.get('draft')).toBeNull();
+    });
+
+    test('segments are escaped so that scopes never collide', () => {
+      const base = baseStorages.inMemoryScoped();
+      const ts = createTypedStorage(spec, { base });
+      const a = ts.scope('user', '4:2');
+      const b = ts.scope('user', 4).scope('2', '');
+      a.set('count', 1);
+      b.set('count', 2);
+
+      expect(base.keys().sort()).toEqual([':user:4%3A2:count', ':user:4::2::count']);
+      expect(a.get('count')).toBe(1);
+      expect(b.get('count')).toBe(2);
+    });
+
+    test('separator is configurable', () => {
+      const base = baseStorages.inMemoryScoped();
+      const ts = createTypedStorage(spec, { base, scopeSeparator: '/' });
+      ts.scope('user', 'a/b:c%').set('count', 1);
+
+      expect(base.keys()).toEqual(['/user/a%2Fb:c%25/count']);
+      expect(() => createTypedStorage(spec, { base, scopeSeparator: '' }).scope('user', 1)).toThrow();
+    });
+
+    test('keys in the spec containing the separator never collide with keys of scopes', () => {
+      const base = baseStorages.inMemoryScoped();
+      const ts = createTypedStorage({ 'draft:x:title': codecs.string, title: codecs.string }, { base });
+      const draft = ts.scope('draft', 'x');
+      ts.set('draft:x:title', 'parent');
+      draft.set('title', 'scope');
+
+      expect(ts.get('draft:x:title')).toEqual('parent');
+      expect(draft.get('title')).toEqual('scope');
+      expect(ts.keys()).toEqual(['draft:x:title']);
+      expect(draft.keys()).toEqual(['title']);
+    });
+
+    test('keys in the spec must not start with the separator', () => {
+      const base = baseStorages.inMemoryScoped();
+      expect(() => createTypedStorage({ ':draft': codecs.string }, { base })).toThrow(/reserved for keys of scopes/);
+      expect(() => createTypedStorage({ ':draft': codecs.string }, { base, scopeSeparator: '/' })).not.toThrow();
+    });
+
+    test('keys exclude entries of nested scopes, while clear removes them', () => {
+      const base = baseStorages.inMemoryScoped();
+      const ts = createTypedStorage(spec, { base });
+      const user1 = ts.scope('user', 1);
+      const user2 = ts.scope('user', 2);
+      ts.set('count', 0);
+      user1.set('count', 1);
+      user1.scope('workspace', 1).set('draft', 'hello');
+      user2.set('draft', 'hi');
+      expect(user1.keys()).toEqual(['count']);
+      expect(user1.getAll()).toEqual({ count: 1 });
+
+      user1.clear();
+      expect(base.keys().sort()).toEqual([':user:2:draft', 'count']);
+    });
+
+    test('entries of scopes are not counted as entries of the parent', () => {
+      const base = baseStorages.inMemoryScoped();
+      const ts = createTypedStorage(spec, { base, keyPrefix: 'p:', quota: { budget: 1000 } });
+      ts.set('count', 0);
+      const usage = ts.usage();
+      ts.scope('user', 1).set('draft', 'hello');
+      ts.scope('user', 1).scope('workspace', 2).set('count', 1);
+
+      expect(base.keys()).toContain('p::user:1:__quota__');
+      expect(ts.usage()).toBe(usage);
+      const report = ts.inspect();
+      expect(report.unknownEntries).toEqual([]);
+      expect(report.totalSize).toBe(usage);
+    });
+  });
+
+  describe('key patterns', () => {
+    const spec = {
+      theme: codecs.string,
+      'draft:${string}': codecs.string,
+      'count:${number}': withDefault(codecs.number, 0),
+    };
+
+    test('values for keys matching patterns are converted by the codec for the pattern', () => {
+      const ts = createTypedStorage(spec, { base: baseStorages.inMemoryScoped() });
+      ts.set('draft:a', 'hello');
+      ts.set('count:1', 10);
+
+      const draft: string | null = ts.get('draft:a');
+      const count: number = ts.get('count:2');
+      expect(draft).toEqual('hello');
+      expect(count).toBe(0);
+      expect(ts.get('count:1')).toBe(10);
+
+      ts.remove('draft:a');
+      ts.reset('count:1');
+      expect(ts.get('draft:a')).toBeNull();
+      expect(ts.get('count:1')).toBe(0);
+
+      // type-level checks
+      () => {
+        // @ts-expect-error: key that doesn't match any pattern
+        ts.get('count:x');
+        // @ts-expect-error: value of wrong type for the pattern
+        ts.set('count:1', 'x');
+      };
+    });
+
+    test('keys enumerates concrete keys that match the pattern', () => {
+      const base = baseStorages.inMemoryScoped();
+      const ts = createTypedStorage(spec, { base });
+      ts.set('theme', 'dark');
+      ts.set('draft:1', 'a');
+      ts.set('draft:2', 'b');
+      ts.set('count:3', 3);
+      base.set('other', 'x');
+      base.set('count:x', '1');
+
+      expect(ts.keys().sort()).toEqual(['count:3', 'draft:1', 'draft:2', 'theme']);
+      const drafts: `draft:${string}`[] = ts.keys('draft:${string}');
+      expect(drafts.sort()).toEqual(['draft:1', 'draft:2']);
+      expect(ts.keys('theme')).toEqual(['theme']);
+    });
+
+    test('clear removes values for keys that match patterns', () => {
+      const base = baseStorages.inMemoryScoped();
+      const ts = createTypedStorage(spec, { base });
+      ts.set('theme', 'dark');
+      ts.set('draft:1', 'a');
+      base.set('other', 'x');
+
+      ts.clear();
+      expect(ts.keys()).toEqual([]);
+      expect(base.keys()).toEqual(['other']);
+    });
+
+    test('keys of scopes never match key patterns', () => {
+      const base = baseStorages.inMemoryScoped();
+      const ts = createTypedStorage({ 'draft:${string}': codecs.string, '${string}': codecs.string }, { base });
+      ts.set('draft:x:title', 'parent');
+      const usage = ts.usage();
+      const draft = ts.scope('draft', 'x');
+      draft.set('title', 'scope');
+      draft.set('draft:y', 'scope');
+
+      expect(ts.get('draft:x:title')).toEqual('parent');
+      expect(ts.keys()).toEqual(['draft:x:title']);
+      expect(ts.keys('draft:${string}')).toEqual(['draft:x:title']);
+      expect(ts.getAll()).toEqual({ 'draft:x:title': 'parent' });
+      expect(ts.usage()).toBe(usage);
+      expect(ts.inspect().unknownEntries).toEqual([]);
+      expect(() => ts.get(':draft:x:title')).toThrow(/reserved for keys of scopes/);
+      expect(() => ts.set(':draft:x:title', 'x')).toThrow(/reserved for keys of scopes/);
+      expect(() => ts.remove(':draft:x:title')).toThrow(/reserved for keys of scopes/);
+      expect(() => ts.subscribe(':draft:x:title', () => undefined)).toThrow(/reserved for keys of scopes/);
+
+      ts.clear();
+      expect(ts.keys()).toEqual([]);
+      expect(draft.getAll()).toEqual({ title: 'scope', 'draft:y': 'scope' });
+    });
+
+    test('keys in the spec take precedence over key patterns', () => {
+      const ts = createTypedStorage(
+        { 'item:${string}': codecs.string, 'item:count': codecs.number },
+        { base: baseStorages.inMemoryScoped() }
+      );
+      ts.set('item:count', 1);
+      ts.set('item:a', '1');
+
+      const count: number | null = ts.get('item:count');
+      expect(count).toBe(1);
+      expect(ts.get('item:a')).toEqual('1');
+    });
+
+    test('${number} matches numeric strings like TypeScript', () => {
+      const ts = createTypedStorage(spec, { base: baseStorages.inMemoryScoped() });
+      for (const key of ['count:0x10', 'count: 1', 'count:-1.5e3'] as const) {
+        ts.set(key, 1);
+        expect(ts.get(key)).toBe(1);
+      }
+      expect(ts.keys('count:${number}').sort()).toEqual(['count: 1', 'count:-1.5e3', 'count:0x10']);
+    });
+
+    test('throws a clear error for keys that match no pattern', () => {
+      const ts = createTypedStorage(spec, { base: baseStorages.inMemoryScoped() });
+      const key = 'count:x' as 'count:1';
+      expect(() => ts.get(key)).toThrow(/doesn't match any key pattern/);
+      expect(() => ts.set(key, 1)).toThrow(EncodeError);
+    });
+  });
+
+  describe('default values', () => {
+    const ts = createTypedStorage(
+      { count: withDefault(codecs.number, 42), name: codecs.string },
+      { base: baseStorages.inMemoryScoped() }
+    );
+
+    test('get returns the default value when key has one and value is not associated', () => {
+      const c: number = ts.get('count');
+      expect(c).toEqual(42);
+      expect(ts.get('name')).toBeNull();
+    });
+    test('get returns the stored value even if key has default value', () => {
+      ts.set('count', 1);
+      expect(ts.get('count')).toEqual(1);
+    });
+    test('reset makes the value back to default', () => {
+      ts.set('count', 1);
+      ts.reset('count');
+      expect(ts.get('count')).toEqual(42);
+    });
+    test('getOrDefault returns the fallback when value is not associated', () => {
+      const n: string = ts.getOrDefault('name', 'anonymous');
+      expect(n).toEqual('anonymous');
+
+      ts.set('name', 'Alice');
+      expect(ts.getOrDefault('name', 'anonymous')).toEqual('Alice');
+    });
+    test('works with class-based codecs', () => {
+      class DateCodec implements Codec<Date> {
+        encode(d: Date): string {
+          return d.toISOString();
+        }
+        decode(s: string): Date {
+          return new Date(s);
+        }
+      }
+      const epoch = new Date(0);
+      const ts = createTypedStorage(
+        { date: withPriority(withTTL(withDefault(new DateCodec(), epoch), 1000), 1) },
+        { base: baseStorages.inMemoryScoped() }
+      );
+      expect(ts.get('date')).toEqual(epoch);
+
+      const d = new Date('2022-01-01T00:00:00.000Z');
+      ts.set('date', d);
+      expect(ts.get('date')).toEqual(d);
+    });
+  });
+
+  describe('TTL', () => {
+    const setup = () => {
+      let time = 1000;
+      const base = baseStorages.inMemoryScoped();
+      const ts = createTypedStorage(
+        { cache: withTTL(codecs.string, 100), plain: codecs.string },
+        { base, keyPrefix: 'pre_', now: () => time }
+      );
+      const advance = (ms: number) => {
+        time += ms;
+      };
+      return { base, ts, advance };
+    };
+
+    test('values expire after TTL for the key have passed, and are removed lazily', () => {
+      const { base, ts, advance } = setup();
+      ts.set('cache', 'value');
+
+      advance(99);
+      expect(ts.get('cache')).toEqual('value');
+
+      advance(1);
+      expect(base.get('pre_cache')).not.toBeNull();
+      expect(ts.get('cache')).toBeNull();
+      expect(base.get('pre_cache')).toBeNull();
+    });
+    test('TTL can be overridden per set', () => {
+      const { ts, advance } = setup();
+      ts.set('cache', 'short', { ttl: 10 });
+      ts.set('plain', 'expiring', { ttl: 10 });
+
+      advance(10);
+      expect(ts.get('cache')).toBeNull();
+      expect(ts.get('plain')).toBeNull();
+
+      ts.set('cache', 'forever', { ttl: Infinity });
+      advance(1000);
+      expect(ts.get('cache')).toEqual('forever');
+    });
+    test('values without TTL are stored as encoded by Codec', () => {
+      const { base, ts, advance } = setup();
+      ts.set('plain', 'value');
+      expect(base.get('pre_plain')).toEqual('value');
+
+      advance(Number.MAX_SAFE_INTEGER);
+      expect(ts.get('plain')).toEqual('value');
+    });
+    test('values without TTL that look like tagged ones are escaped', () => {
+      const { base, ts, advance } = setup();
+      ts.set('plain', '\u0001t5:hello');
+
+      advance(1000);
+      expect(ts.get('plain')).toEqual('\u0001t5:hello');
+      expect(base.get('pre_plain')).not.toBeNull();
+      ts.set('cache', '\u0001n', { ttl: Infinity });
+      expect(ts.get('cache')).toEqual('\u0001n');
+    });
+    test('values expire correctly with fractional clock and TTL', () => {
+      let time = 1000.25;
+      const ts = createTypedStorage(
+        { str: withTTL(codecs.string, 1.5), num: withTTL(codecs.number, 100) },
+        { base: baseStorages.inMemoryScoped(), now: () => time }
+      );
+      ts.set('str', 'hello');
+      ts.set('num', 1);
+      expect(ts.get('str')).toEqual('hello');
+      expect(ts.get('num')).toBe(1);
+
+      time += 101;
+      expect(ts.get('str')).toBeNull();
+      expect(ts.get('num')).toBeNull();
+    });
+    test('negative or NaN TTLs are rejected', () => {
+      const { ts } = setup();
+      expect(() => ts.set('cache', 'value', { ttl: -1 })).toThrow('invalid TTL');
+      expect(() => ts.set('cache', 'value', { ttl: NaN })).toThrow('invalid TTL');
+      expect(() => withTTL(codecs.string, -1)).toThrow('invalid TTL');
+      expect(ts.get('cache')).toBeNull();
+    });
+  });
+
+  describe('compression', () => {
+    const Doc = z.object({ title: z.string(), blocks: z.array(z.object({ type: z.string(), text: z.string() })) });
+    const doc = {
+      title: 'document',
+      blocks: Array.from({ length: 500 }, (_, i) => ({ type: 'paragraph', text: `paragraph ${i % 10}` })),
+    };
+    const spec = { doc: codecs.jsonWithZod(Doc), cache: withTTL(codecs.jsonWithZod(Doc), 1000) };
+
+    test('values are compressed before stored if compression option is set', () => {
+      const plainBase = baseStorages.inMemoryScoped();
+      createTypedStorage(spec, { base: plainBase }).set('doc', doc);
+
+      const base = baseStorages.inMemoryScoped();
+      const ts = createTypedStorage(spec, { base, compression: true });
+      ts.set('doc', doc);
+
+      const stored = base.get('doc') as string;
+      expect(stored.length).toBeLessThan((plainBase.get('doc') as string).length / 4);
+      expect(ts.get('doc')).toEqual(doc);
+    });
+    test('values stored without compression are readable', () => {
+      const base = baseStorages.inMemoryScoped();
+      createTypedStorage(spec, { base }).set('doc', doc);
+
+      const ts = createTypedStorage(spec, { base, compression: { threshold: 10 } });
+      expect(ts.get('doc')).toEqual(doc);
+    });
+    test('expiration of compressed values works', () => {
+      let now = 0;
+      const base = baseStorages.inMemoryScoped();
+      const ts = createTypedStorage(spec, { base, compression: true, now: () => now });
+      ts.set('cache', doc);
+      expect(ts.get('cache')).toEqual(doc);
+
+      now = 1000;
+      expect(ts.get('cache')).toBeNull();
+    });
+  });
+
+  describe('safe API', () => {
+    const failingBase: BaseStorage = {
+      get: () => {
+        throw Error('backend failure');
+      },
+      set: () => {
+        throw Error('backend failure');
+      },
+      remove: () => {
+        throw Error('backend failure');
+      },
+    };
+    const unencodable: Codec<number> = {
+      encode: () => {
+        throw Error('unencodable');
+      },
+      decode: s => Number(s),
+    };
+
+    test('safeGet returns value on success, or reason of failure', () => {
+      const base = baseStorages.inMemoryScoped();
+      const ts = createTypedStorage({ num: codecs.number, str: codecs.string }, { base });
+      ts.set('num', 1);
+      expect(ts.safeGet('num')).toEqual({ ok: true, value: 1 });
+      expect(ts.safeGet('str')).toEqual({ ok: true, value: null });
+
+      base.set('num', 'corrupted');
+      expect(ts.safeGet('num')).toMatchObject({ ok: false, reason: 'decode' });
+
+      const failing = createTypedStorage({ num: codecs.number }, { base: failingBase });
+      expect(failing.safeGet('num')).toMatchObject({ ok: false, reason: 'backend' });
+    });
+    test('safeSet and safeRemove return reason of failure', () => {
+      const ts = createTypedStorage({ num: unencodable }, { base: baseStorages.inMemoryScoped() });
+      expect(ts.safeSet('num', 1)).toMatchObject({ ok: false, reason: 'encode' });
+      expect(ts.safeRemove('num')).toEqual({ ok: true, value: undefined });
+
+      const failing = createTypedStorage({ num: codecs.number }, { base: failingBase });
+      expect(failing.safeSet('num', 1)).toMatchObject({ ok: false, reason: 'backend' });
+      expect(failing.safeRemove('num')).toMatchObject({ ok: false, reason: 'backend' });
+    });
+    test("undecodable values are treated as absent if onDecodeError is 'ignore'", () => {
+      const base = baseStorages.inMemoryScoped();
+      base.set('num', 'corrupted');
+      const ts = createTypedStorage({ num: withDefault(codecs.number, 0) }, { base, onDecodeError: 'ignore' });
+
+      expect(ts.get('num')).toEqual(0);
+      expect(base.get('num')).toEqual('corrupted');
+    });
+    test("undecodable values are removed if onDecodeError is 'remove'", () => {
+      const base = baseStorages.inMemoryScoped();
+      base.set('num', 'corrupted');
+      const ts = createTypedStorage({ num: codecs.number }, { base, onDecodeError: 'remove' });
+
+      expect(ts.get('num')).toBeNull();
+      expect(base.get('num')).toBeNull();
+    });
+  });
+
+  describe('errors', () => {
+    const User = z.object({ name: z.string(), tags: z.array(z.string()) });
+
+    test('DecodeError carries keys, raw value, path and original error', () => {
+      const base = baseStorages.inMemoryScoped();
+      const ts = createTypedStorage({ user: codecs.jsonWithZod(User) }, { base, keyPrefix: 'pre_' });
+      const raw = JSON.stringify({ name: 'John', tags: ['a', 1] });
+      base.set('pre_user', raw);
+
+      const res = ts.safeGet('user');
+      if (res.ok) {
+        throw Error('safeGet should fail');
+      }
+      expect(res.error).toBeInstanceOf(DecodeError);
+      expect(res.error).toMatchObject({ key: 'user', physicalKey: 'pre_user', raw, path: ['tags', 1] });
+      expect(res.error.cause).toBeInstanceOf(CodecError);
+      expect(() => ts.get('user')).toThrow(DecodeError);
+    });
+    test('EncodeError and StorageBackendError preserve the original error as cause', () => {
+      const cause = Error('unencodable');
+      const unencodable: Codec<number> = {
+        encode: () => {
+          throw cause;
+        },
+        decode: s => Number(s),
+      };
+      const ts = createTypedStorage({ num: unencodable }, { base: baseStorages.inMemoryScoped() });
+      expect(() => ts.set('num', 1)).toThrow(EncodeError);
+      expect(ts.safeSet('num', 1)).toMatchObject({ ok: false, error: { key: 'num', cause } });
+
+      const backendFailure = Error('backend failure');
+      const failingBase: BaseStorage = {
+        get: () => {
+          throw backendFailure;
+        },
+        set: () => undefined,
+        remove: () => undefined,
+      };
+      const failing = createTypedStorage({ num: codecs.number }, { base: failingBase });
+      expect(() => failing.get('num')).toThrow(StorageBackendError);
+      expect(failing.safeGet('num')).toMatchObject({ ok: false, error: { cause: backendFailure } });
+    });
+  });
+
+  describe('quota', () => {
+    const spec = { a: codecs.string, b: codecs.string, c: codecs.string };
+
+    test('quota errors of the underlying storage are reported as QuotaExceededError', () => {
+      const ts = createTypedStorage(spec, { base: limitedStorage(10) });
+      expect(() => ts.set('a', 'x'.repeat(10))).toThrow(QuotaExceededError);
+      expect(ts.safeSet('a', 'x'.repeat(10))).toMatchObject({ ok: false, reason: 'quota' });
+    });
+    test('usage returns the total size of entries under the prefix', () => {
+      const base = baseStorages.inMemoryScoped();
+      base.set('other', 'value');
+      const ts = createTypedStorage(spec, { base, keyPrefix: 'p:' });
+      ts.set('a', 'xyz');
+      ts.set('b', 'x');
+      // ('p:a' + 'xyz' + 'p:b' + 'x') * 2 bytes
+      expect(ts.usage()).toEqual(20);
+    });
+    test('lru: evicts least recently used values to fit in the budget', () => {
+      const onEvict = jest.fn();
+      const ts = createTypedStorage(spec, {
+        base: baseStorages.inMemoryScoped(),
+        now: tickingClock(),
+        quota: { budget: 40, onEvict },
+      });
+      ts.set('a', 'xxxxx'); // 12 bytes each
+      ts.set('b', 'xxxxx');
+      ts.set('c', 'xxxxx');
+      ts.get('a');
+
+      ts.set('c', 'xxxxxxxx'); // 18 bytes: a(12) + c(18) + b(12) > 40
+      expect(onEvict).toHaveBeenCalledTimes(1);
+      expect(onEvict).toHaveBeenCalledWith('b');
+      expect(ts.keys().sort()).toEqual(['a', 'c']);
+      expect(ts.usage()).toBeLessThanOrEqual(40);
+    });
+    test('oldest: evicts least recently set values', () => {
+      const ts = createTypedStorage(spec, {
+        base: baseStorages.inMemoryScoped(),
+        now: tickingClock(),
+        quota: { budget: 24, policy: 'oldest' },
+      });
+      ts.set('a', 'xxxxx');
+      ts.set('b', 'xxxxx');
+      ts.get('a');
+
+      ts.set('c', 'xxxxx');
+      expect(ts.keys().sort()).toEqual(['b', 'c']);
+    });
+    test('priority: evicts values with lower priority first', () => {
+      const ts = createTypedStorage(
+        { important: withPriority(codecs.string, 10), normal: codecs.string, cache: withPriority(codecs.string, -10) },
+        { base: baseStorages.inMemoryScoped(), now: tickingClock(), quota: { budget: 80, policy: 'priority' } }
+      );
+      ts.set('cache', 'xxxxx');
+      ts.set('important', 'xxxxx');
+      ts.set('normal', 'xxxxx');
+      ts.set('cache', 'x'.repeat(20));
+      expect(ts.keys().sort()).toEqual(['cache', 'important']);
+    });
+    test('evicts values and retries when the underlying storage runs out of space', () => {
+      const onEvict = jest.fn();
+      const ts = createTypedStorage(spec, { base: limitedStorage(30), now: tickingClock(), quota: { onEvict } });
+      ts.set('a', 'xxxx');
+      ts.set('b', 'xxxx');
+
+      // metadata takes some space, so all other values must be evicted
+      ts.set('c', 'xxxx');
+      expect(ts.get('c')).toEqual('xxxx');
+      expect(onEvict).toHaveBeenCalledWith('a');
+    });
+    test('throws QuotaExceededError without evicting anything if the value cannot fit in the budget', () => {
+      const onEvict = jest.fn();
+      const ts = createTypedStorage(spec, { base: baseStorages.inMemoryScoped(), quota: { budget: 20, onEvict } });
+      ts.set('a', 'x');
+
+      expect(() => ts.set('b', 'x'.repeat(10))).toThrow(QuotaExceededError);
+      expect(onEvict).not.toHaveBeenCalled();
+      expect(ts.get('a')).toEqual('x');
+    });
+    test('eviction is notified to subscribers', () => {
+      const ts = createTypedStorage(spec, { base: baseStorages.inMemoryScoped(), quota: { budget: 24 } });
+      ts.set('a', 'xxxxx');
+      const listener = jest.fn();
+      ts.subscribe('a', listener);
+
+      ts.set('b', 'xxxxxx');
+      expect(listener).toHaveBeenCalledWith({ key: 'a', oldValue: 'xxxxx', newValue: null, external: false });
+    });
+    test('access records persist in the underlying storage', () => {
+      const base = baseStorages.inMemoryScoped();
+      const now = tickingClock();
+      const ts1 = createTypedStorage(spec, { base, now, keyPrefix: 'p:', quota: { budget: 40 } });
+      ts1.set('a', 'xxxxx');
+      ts1.set('b', 'xxxxx');
+      expect(base.get('p:__quota__')).not.toBeNull();
+
+      const ts2 = createTypedStorage(spec, { base, now, keyPrefix: 'p:', quota: { budget: 40 } });
+      ts2.set('c', 'xxxxxxxx');
+      expect(ts2.keys().sort()).toEqual(['b', 'c']);
+    });
+    test('stored entries are scanned only on the first write and when eviction seems necessary', () => {
+      const inner = baseStorages.inMemoryScoped();
+      const base = { ...inner, keys: jest.fn(() => inner.keys()) };
+      const onEvict = jest.fn();
+      const ts = createTypedStorage(spec, { base, now: tickingClock(), quota: { budget: 40, onEvict } });
+      ts.set('a', 'xxxxx');
+      ts.set('b', 'xxxxx');
+      ts.set('a', 'xxxxxx');
+      expect(base.keys).toHaveBeenCalledTimes(1);
+
+      ts.set('c', 'xxxxxxx'); // a(14) + b(12) + c(16) > 40
+      expect(base.keys).toHaveBeenCalledTimes(2);
+      expect(onEvict).toHaveBeenCalledWith('b');
+      expect(ts.usage()).toBeLessThanOrEqual(40);
+    });
+    test('errors thrown from onEvict never interrupt writes, and are rethrown asynchronously', () => {
+      jest.useFakeTimers();
+      try {
+        const onEvict = () => {
+          throw Error('onEvict failed');
+        };
+        const ts = createTypedStorage(spec, { base: baseStorages.inMemoryScoped(), quota: { budget: 24, onEvict } });
+        ts.set('a', 'xxxxx');
+        ts.set('b', 'xxxxxx');
+        expect(ts.get('a')).toBeNull();
+        expect(ts.get('b')).toEqual('xxxxxx');
+
+        expect(() => jest.runAllTimers()).toThrow('onEvict failed');
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+    test('clear discards access records', () => {
+      const base = baseStorages.inMemoryScoped();
+      const ts = createTypedStorage(spec, { base, now: tickingClock(), keyPrefix: 'p:', quota: { budget: 40 } });
+      ts.set('a', 'xxxxx');
+      ts.set('b', 'xxxxx');
+      ts.clear();
+      expect(base.keys()).toEqual([]);
+
+      ts.set('c', 'xxxxx');
+      expect(JSON.parse(base.get('p:__quota__') as string).map((r: unknown[]) => r[0])).toEqual(['c']);
+    });
+    test('metadata key must not conflict with keys in the spec', () => {
+      expect(() =>
+        createTypedStorage(spec, { base: baseStorages.inMemoryScoped(), quota: { metadataKey: 'a' } })
+      ).toThrow(/conflicts/);
+    });
+  });
+
+  describe('transaction', () => {
+    const spec = { theme: codecs.string, fontSize: codecs.number, layout: codecs.string };
+
+    // storage that fails to set the value for the `failingKey`
+    const failingOn = (failingKey: string): BaseStorage => {
+      const base = baseStorages.inMemoryScoped();
+      return {
+        get: k => base.get(k),
+        set: (k, v) => {
+          if (k === failingKey) {
+            throw Error('write failed');
+          }
+          base.set(k, v);
+        },
+        remove: k => base.remove(k),
+      };
+    };
+
+    test('applies all operations', () => {
+      const ts = createTypedStorage(spec, { base: baseStorages.inMemoryScoped() });
+      ts.set('layout', 'grid');
+
+      ts.transaction(tx => {
+        tx.set('theme', 'dark');
+        tx.set('fontSize', 12);
+        tx.set('fontSize', 16);
+        tx.remove('layout');
+      });
+      expect(ts.getAll()).toEqual({ theme: 'dark', fontSize: 16 });
+    });
+    test('encoding failure aborts the transaction before any writes', () => {
+      const positive: Codec<number> = {
+        encode: n => {
+          if (n <= 0) {
+            throw Error('not positive');
+          }
+          return String(n);
+        },
+        decode: s => Number(s),
+      };
+      const ts = createTypedStorage({ ...spec, fontSize: positive }, { base: baseStorages.inMemoryScoped() });
+      ts.set('theme', 'light');
+
+      expect(() =>
+        ts.transaction(tx => {
+          tx.set('theme', 'dark');
+          tx.set('fontSize', -1);
+        })
+      ).toThrow(EncodeError);
+      expect(ts.get('theme')).toEqual('light');
+    });
+    test('exception in the callback aborts the transaction', () => {
+      const ts = createTypedStorage(spec, { base: baseStorages.inMemoryScoped() });
+      expect(() =>
+        ts.transaction(tx => {
+          tx.set('theme', 'dark');
+          throw Error('aborted');
+        })
+      ).toThrow('aborted');
+      expect(ts.get('theme')).toBeNull();
+    });
+    test('rolls back to previous values if the underlying storage fails partway', () => {
+      const ts = createTypedStorage(spec, { base: failingOn('layout') });
+      ts.set('theme', 'light');
+      const listener = jest.fn();
+      ts.subscribe('theme', listener);
+
+      expect(() =>
+        ts.transaction(tx => {
+          tx.set('theme', 'dark');
+          tx.set('fontSize', 16);
+          tx.set('layout', 'grid');
+        })
+      ).toThrow(StorageBackendError);
+      expect(ts.get('theme')).toEqual('light');
+      expect(ts.get('fontSize')).toBeNull();
+      expect(listener).not.toHaveBeenCalled();
+    });
+    test('rolls back values evicted during the transaction', () => {
+      const base = failingOn('fontSize');
+      const onEvict = jest.fn();
+      const ts = createTypedStorage(spec, { base, now: tickingClock(), quota: { budget: 40, onEvict } });
+      ts.set('layout', 'grid');
+      const metadata = base.get('__quota__');
+      const listener = jest.fn();
+      ts.subscribe('layout', listener);
+
+      // 'layout' is evicted to make space for 'fontSize', then writing 'fontSize' fails
+      expect(() =>
+        ts.transaction(tx => {
+          tx.set('theme', 'dark');
+          tx.set('fontSize', 16);
+        })
+      ).toThrow(StorageBackendError);
+      expect(ts.get('layout')).toEqual('grid');
+      expect(ts.get('theme')).toBeNull();
+      expect(onEvict).not.toHaveBeenCalled();
+      expect(listener).not.toHaveBeenCalled();
+      expect(base.get('__quota__')).toEqual(metadata);
+    });
+    test('evictions during the transaction are notified after commit', () => {
+      const onEvict = jest.fn();
+      const ts = createTypedStorage(spec, { base: baseStorages.inMemoryScoped(), quota: { budget: 40, onEvict } });
+      ts.set('layout', 'grid');
+
+      ts.transaction(tx => {
+        tx.set('theme', 'dark');
+        tx.set('fontSize', 16);
+      });
+      expect(onEvict).toHaveBeenCalledWith('layout');
+      expect(ts.get('layout')).toBeNull();
+    });
+    test('changes are notified after commit', () => {
+      const ts = createTypedStorage(spec, { base: baseStorages.inMemoryScoped() });
+      ts.set('theme', 'light');
+      const listener = jest.fn();
+      ts.subscribe('theme', listener);
+
+      ts.transaction(tx => tx.set('theme', 'dark'));
+      expect(listener).toHaveBeenCalledWith({ key: 'theme', oldValue: 'light', newValue: 'dark', external: false });
+    });
+    test('transaction cannot be used after the callback returns', () => {
+      const ts = createTypedStorage(spec, { base: baseStorages.inMemoryScoped() });
+      let leaked: { set: (key: 'theme', value: string) => void } | undefined;
+      ts.transaction(tx => {
+        leaked = tx;
+      });
+      expect(() => leaked?.set('theme', 'dark')).toThrow(/finished/);
+    });
+  });
+
+  describe('enumeration and bulk operations', () => {
+    const spec = { num: codecs.number, str: codecs.string, bool: codecs.boolean };
+
+    test('has checks if a value is associated with the key', () => {
+      const ts = createTypedStorage(spec, { base: baseStorages.inMemoryScoped() });
+      ts.set('num', 1);
+      expect(ts.has('num')).toBe(true);
+      expect(ts.has('str')).toBe(false);
+    });
+    test('keys returns keys under the prefix with which values are associated', () => {
+      const base = baseStorages.inMemoryScoped();
+      base.set('num', '1');
+      base.set('pre_unknown', 'value');
+      const ts = createTypedStorage(spec, { base, keyPrefix: 'pre_' });
+      ts.set('num', 1);
+      ts.set('bool', true);
+      expect(ts.keys().sort()).toEqual(['bool', 'num']);
+    });
+    test('keys checks every key in the spec if the underlying storage is not enumerable', () => {
+      const { get, set, remove } = baseStorages.inMemoryScoped();
+      const ts = createTypedStorage(spec, { base: { get, set, remove } });
+      ts.set('str', 'a');
+      expect(ts.keys()).toEqual(['str']);
+    });
+    test('clear removes all keys under the prefix only', () => {
+      const base = baseStorages.inMemoryScoped();
+      base.set('num', '1');
+      base.set('pre_unknown', 'value');
+      const ts = createTypedStorage(spec, { base, keyPrefix: 'pre_' });
+      ts.set('num', 1);
+      ts.set('str', 'a');
+
+      ts.clear();
+      expect(ts.keys()).toEqual([]);
+      expect(base.keys()).toEqual(['num']);
+    });
+    test('clear removes all keys in the spec if prefix is not set', () => {
+      const base = baseStorages.inMemoryScoped();
+      base.set('unknown', 'value');
+      const ts = createTypedStorage(spec, { base });
+      ts.set('num', 1);
+
+      ts.clear();
+      expect(base.keys()).toEqual(['unknown']);
+    });
+    test('getAll returns record of all values, setMany sets values in the record', () => {
+      const ts = createTypedStorage(spec, { base: baseStorages.inMemoryScoped(), keyPrefix: 'pre_' });
+      ts.setMany({ num: 1, str: 'a' });
+      expect(ts.getAll()).toEqual({ num: 1, str: 'a' });
+    });
+  });
+
+  describe('inspection', () => {
+    const spec = {
+      num: codecs.number,
+      str: codecs.string,
+      cache: withTTL(codecs.string, 1000),
+      'draft:${string}': codecs.string,
+    };
+
+    test('inspect reports status and size of each entry, and unknown entries', () => {
+      let t = 0;
+      const base = baseStorages.inMemoryScoped();
+      const ts = createTypedStorage(spec, { base, keyPrefix: 'app_', now: () => t });
+      ts.set('num', 1);
+      ts.set('cache', 'c');
+      ts.set('draft:a', 'hello');
+      base.set('app_str', 'plain');
+      base.set('app_num', 'nan?');
+      base.set('app_legacy', 'x');
+      base.set('other', 'y');
+      t = 2000;
+
+      const report = ts.inspect();
+      const byKey = Object.fromEntries(report.entries.map(e => [e.key, e]));
+      expect(byKey['num']).toMatchObject({ status: 'corrupt', physicalKey: 'app_num', repaired: false });
+      expect(byKey['num'].status === 'corrupt' && byKey['num'].error).toBeInstanceOf(DecodeError);
+      expect(byKey['str']).toMatchObject({ status: 'ok', size: ('app_str'.length + 'plain'.length) * 2 });
+      expect(byKey['cache']).toMatchObject({ status: 'expired' });
+      expect(byKey['draft:a']).toMatchObject({ status: 'ok', physicalKey: 'app_draft:a' });
+      expect(report.entries).toHaveLength(4);
+      expect(report.unknownEntries).toEqual([{ physicalKey: 'app_legacy', size: ('app_legacy'.length + 1) * 2 }]);
+      expect(report.totalSize).toBe(ts.usage());
+
+      // inspection doesn't modify the storage
+      expect(base.get('app_num')).toEqual('nan?');
+    });
+
+    test('inspect reports missing keys', () => {
+      const ts = createTypedStorage(spec, { base: baseStorages.inMemoryScoped() });
+      ts.set('str', 'a');
+
+      const report = ts.inspect();
+      expect(report.entries.filter(e => e.status === 'missing').map(e => e.key)).toEqual(['num', 'cache']);
+      expect(report.unknownEntries).toEqual([]);
+    });
+
+    test('inspect removes corrupt entries in the repair mode', () => {
+      const base = baseStorages.inMemoryScoped();
+      const ts = createTypedStorage(spec, { base });
+      ts.set('str', 'a');
+      base.set('num', 'nan?');
+      const listener = jest.fn();
+      ts.subscribe('num', listener);
+
+      const report = ts.inspect({ repair: true });
+      expect(report.entries.find(e => e.key === 'num')).toMatchObject({ status: 'corrupt', repaired: true });
+      expect(base.get('num')).toBeNull();
+      expect(ts.get('str')).toEqual('a');
+      expect(listener).toHaveBeenCalledWith({ key: 'num', oldValue: null, newValue: null, external: false });
+    });
+  });
+});
+
+describe('TypedStorage with versioned codec', () => {
+  const v1Codec = codecs.versioned(codecs.number);
+  const v2Codec = (writeBack: boolean) =>
+    codecs.versioned(codecs.number, { writeBack }).migrate(codecs.string, n => `#${n}`);
+
+  test('values in older versions are migrated on get', () => {
+    const base = baseStorages.inMemoryScoped();
+    base.set('key', v1Codec.encode(1));
+
+    const ts = createTypedStorage({ key: v2Codec(false) }, { base });
+    expect(ts.get('key')).toEqual('#1');
+    // not written back
+    expect(base.get('key')).toEqual(v1Codec.encode(1));
+  });
+  test('migrated values are written back if writeBack option is enabled', () => {
+    const base = baseStorages.inMemoryScoped();
+    base.set('key', v1Codec.encode(1));
+
+    const codec = v2Codec(true);
+    const ts = createTypedStorage({ key: codec }, { base });
+    expect(ts.get('key')).toEqual('#1');
+    expect(base.get('key')).toEqual(codec.encode('#1'));
+  });
+});
+
+describe('TypedStorage subscriptions', () => {
+  // in-memory storage that can simulate changes from the outside
+  const createExternallyChangeableStorage = () => {
+    const base = baseStorages.inMemoryScoped();
+    const listeners = new Set<BaseStorageChangeListener>();
+    const storage: SubscribableBaseStorage = {
+      ...base,
+      subscribe(l) {
+        listeners.add(l);
+        return () => listeners.delete(l);
+      },
+    };
+    const changeExternally = (key: string, value: string | null) => {
+      const oldValue = base.get(key);
+      if (value === null) {
+        base.remove(key);
+      } else {
+        base.set(key, value);
+      }
+      listeners.forEach(l => l({ key, oldValue, newValue: value }));
+    };
+    return { storage, changeExternally, listenerCount: () => listeners.size };
+  };
+
+  test('subscribe notifies changes made via the wrapper', () => {
+    const ts = createTypedStorage({ num: codecs.number, str: codecs.string }, { base: baseStorages.inMemoryScoped() });
+    const listener = jest.fn();
+    const unsubscribe = ts.subscribe('num', listener);
+
+    ts.set('num', 1);
+    ts.set('num', 2);
+    ts.set('str', 'ignored');
+    ts.remove('num');
+    expect(listener.mock.calls).toEqual([
+      [{ key: 'num', oldValue: null, newValue: 1, external: false }],
+      [{ key: 'num', oldValue: 1, newValue: 2, external: false }],
+      [{ key: 'num', oldValue: 2, newValue: null, external: false }],
+    ]);
+
+    unsubscribe();
+    ts.set('num', 3);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  test('subscribe notifies changes made from the outside, filtering by key prefix', () => {
+    const { storage, changeExternally } = createExternallyChangeableStorage();
+    const ts = createTypedStorage({ num: codecs.number }, { base: storage, keyPrefix: 'pre_' });
+    const listener = jest.fn();
+    ts.subscribe('num', listener);
+
+    changeExternally('pre_num', '10');
+    changeExternally('num', '20');
+    changeExternally('pre_other', '30');
+    expect(listener.mock.calls).toEqual([[{ key: 'num', oldValue: null, newValue: 10, external: true }]]);
+  });
+
+  test('subscribes the underlying storage only while some listener is registered', () => {
+    const { storage, listenerCount } = createExternallyChangeableStorage();
+    const ts = createTypedStorage({ num: codecs.number, str: codecs.string }, { base: storage });
+
+    const unsub1 = ts.subscribe('num', () => undefined);
+    const unsub2 = ts.subscribe('str', () => undefined);
+    expect(listenerCount()).toBe(1);
+
+    unsub1();
+    expect(listenerCount()).toBe(1);
+    unsub2();
+    expect(listenerCount()).toBe(0);
+  });
+
+  test('reports decode failures of values written from the outside without stopping notifications', () => {
+    const { storage, changeExternally } = createExternallyChangeableStorage();
+    const ts = createTypedStorage({ num: codecs.number }, { base: storage });
+    const listener = jest.fn();
+    const onError = jest.fn();
+    ts.subscribe('num', listener, { onError });
+
+    changeExternally('num', 'not a number');
+    expect(listener).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledTimes(1);
+
+    changeExternally('num', '1');
+    expect(listener).toHaveBeenCalledWith({ key: 'num', oldValue: null, newValue: 1, external: true });
+  });
+
+  test('errors thrown from a listener do not prevent other listeners from being notified', () => {
+    const ts = createTypedStorage({ num: codecs.number }, { base: baseStorages.inMemoryScoped() });
+    const onError = jest.fn();
+    const listener = jest.fn();
+    ts.subscribe(
+      'num',
+      () => {
+        throw Error('oops');
+      },
+      { onError }
+    );
+    ts.subscribe('num', listener);
+
+    ts.set('num', 1);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('watch calls listener with current value, then with new values', () => {
+    const ts = createTypedStorage({ num: withDefault(codecs.number, 0) }, { base: baseStorages.inMemoryScoped() });
+    const listener = jest.fn();
+    ts.watch('num', listener);
+
+    ts.set('num', 1);
+    ts.remove('num');
+    expect(listener.mock.calls).toEqual([[0], [1], [0]]);
+  });
+
+  test('atom satisfies the Svelte store contract', () => {
+    const ts = createTypedStorage({ num: withDefault(codecs.number, 0) }, { base: baseStorages.inMemoryScoped() });
+    const num = ts.atom('num');
+    const run = jest.fn();
+    const unsubscribe = num.subscribe(run);
+    expect(run.mock.calls).toEqual([[0]]);
+
+    num.set(1);
+    num.update(n => n + 10);
+    expect(num.get()).toBe(11);
+    expect(ts.get('num')).toBe(11);
+    num.remove();
+    expect(run.mock.calls).toEqual([[0], [1], [11], [0]]);
+
+    unsubscribe();
+    unsubscribe.unsubscribe();
+    num.set(2);
+    expect(run).toHaveBeenCalledTimes(4);
+  });
+
+  test('atom re-emits changes from the outside to observers, and reports errors to them', () => {
+    const { storage, changeExternally, listenerCount } = createExternallyChangeableStorage();
+    const ts = createTypedStorage({ num: codecs.number }, { base: storage });
+    const observer = { next: jest.fn(), error: jest.fn() };
+    // consumes the atom like Observable libraries do
+    const subscription = ts.atom('num')['@@observable']().subscribe(observer);
+
+    changeExternally('num', '1');
+    changeExternally('num', 'not a number');
+    changeExternally('num', '2');
+    expect(observer.next.mock.calls).toEqual([[null], [1], [2]]);
+    expect(observer.error).toHaveBeenCalledTimes(1);
+
+    subscription.unsubscribe();
+    expect(listenerCount()).toBe(0);
+  });
+});
+
+describe('AsyncTypedStorage', () => {
+  test('inspect', async () => {
+    const base = baseStorages.inMemoryScopedAsync();
+    const ts = createAsyncTypedStorage({ num: codecs.number, str: codecs.string }, { base });
+    await ts.set('str', 'a');
+    await base.set('num', 'nan?');
+    await base.set('other', 'x');
+
+    const report = await ts.inspect({ repair: true });
+    expect(report.entries.map(e => [e.key, e.status])).toEqual([
+      ['str', 'ok'],
+      ['num', 'corrupt'],
+    ]);
+    expect(report.unknownEntries.map(e => e.physicalKey)).toEqual(['other']);
+    expect(await base.get('num')).toBeNull();
+  });
+
+  test('key patterns', async () => {
+    const ts = createAsyncTypedStorage(
+      { theme: codecs.string, 'draft:${string}': codecs.string },
+      { base: baseStorages.inMemoryScopedAsync() }
+    );
+    await ts.set('theme', 'dark');
+    await ts.set('draft:1', 'a');
+
+    expect(await ts.get('draft:1')).toEqual('a');
+    expect(await ts.keys('draft:${string}')).toEqual(['draft:1']);
+
+    // keys of scopes never match key patterns
+    const anyKey = createAsyncTypedStorage(
+      { '${string}': codecs.string },
+      { base: baseStorages.inMemoryScopedAsync() }
+    );
+    await anyKey.set('a', 'parent');
+    await anyKey.scope('user', 1).set('a', 'scope');
+    expect(await anyKey.keys()).toEqual(['a']);
+    await anyKey.clear();
+    expect(await anyKey.scope('user', 1).getAll()).toEqual({ a: 'scope' });
+  });
+
+  test('scopes', async () => {
+    const base = baseStorages.inMemoryScopedAsync();
+    const ts = createAsyncTypedStorage({ count: codecs.number }, { base });
+    const user = ts.scope('user', 42);
+    await user.set('count', 1);
+    await ts.set('count', 0);
+
+    expect(await base.get(':user:42:count')).toEqual('1');
+    expect(await user.keys()).toEqual(['count']);
+
+    await user.clear();
+    expect(await base.keys()).toEqual(['count']);
+  });
+
+  describe('TTL', () => {
+    test('values expire after TTL have passed', async () => {
+      let time = 0;
+      const base = baseStorages.inMemoryScopedAsync();
+      const ts = createAsyncTypedStorage({ cache: withTTL(codecs.number, 100) }, { base, now: () => time });
+
+      await ts.set('cache', 1);
+      time = 99;
+      expect(await ts.get('cache')).toEqual(1);
+      time = 100;
+      expect(await ts.get('cache')).toBeNull();
+      expect(await base.get('cache')).toBeNull();
+    });
+  });
+
+  describe('subscriptions', () => {
+    test('subscribe notifies changes made via the wrapper', async () => {
+      const ts = createAsyncTypedStorage({ num: codecs.number }, { base: baseStorages.inMemoryScopedAsync() });
+      const listener = jest.fn();
+      ts.subscribe('num', listener);
+
+      await ts.set('num', 1);
+      await ts.remove('num');
+      expect(listener.mock.calls).toEqual([
+        [{ key: 'num', oldValue: null, newValue: 1, external: false }],
+        [{ key: 'num', oldValue: 1, newValue: null, external: false }],
+      ]);
+    });
+    test('watch calls listener with current value, then with new values', async () => {
+      const base = baseStorages.inMemoryScopedAsync();
+      await base.set('num', '1');
+      const ts = createAsyncTypedStorage({ num: codecs.number }, { base });
+      const listener = jest.fn();
+      ts.watch('num', listener);
+
+      await new Promise(resolve => setTimeout(resolve, 0));
+      await ts.set('num', 2);
+      expect(listener.mock.calls).toEqual([[1], [2]]);
+    });
+  });
+
+  describe('safe API', () => {
+    test('safeGet resolves to value on success, or reason of failure', async () => {
+      const base = baseStorages.inMemoryScopedAsync();
+      const ts = createAsyncTypedStorage({ num: codecs.number }, { base });
+      await ts.set('num', 1);
+      expect(await ts.safeGet('num')).toEqual({ ok: true, value: 1 });
+
+      await base.set('num', 'corrupted');
+      expect(await ts.safeGet('num')).toMatchObject({ ok: false, reason: 'decode' });
+    });
+    test("undecodable values are removed if onDecodeError is 'remove'", async () => {
+      const base = baseStorages.inMemoryScopedAsync();
+      await base.set('num', 'corrupted');
+      const ts = createAsyncTypedStorage({ num: codecs.number }, { base, onDecodeError: 'remove' });
+
+      expect(await ts.safeGet('num')).toEqual({ ok: true, value: null });
+      expect(await base.get('num')).toBeNull();
+    });
+  });
+
+  describe('enumeration and bulk operations', () => {
+    const spec = { num: codecs.number, str: codecs.string, bool: codecs.boolean };
+
+    test('has, keys and getAll/setMany', async () => {
+      const ts = createAsyncTypedStorage(spec, { base: baseStorages.inMemoryScopedAsync(), keyPrefix: 'pre_' });
+      await ts.setMany({ num: 1, bool: false });
+      expect(await ts.has('num')).toBe(true);
+      expect(await ts.has('str')).toBe(false);
+      expect((await ts.keys()).sort()).toEqual(['bool', 'num']);
+      expect(await ts.getAll()).toEqual({ num: 1, bool: false });
+    });
+    test('clear removes all keys under the prefix only', async () => {
+      const base = baseStorages.inMemoryScopedAsync();
+      await base.set('num', '1');
+      await base.set('pre_unknown', 'value');
+      const ts = createAsyncTypedStorage(spec, { base, keyPrefix: 'pre_' });
+      await ts.set('num', 1);
+
+      await ts.clear();
+      expect(await base.keys()).toEqual(['num']);
+    });
+  });
+
+  describe('default values', () => {
+    const ts = createAsyncTypedStorage(
+      { count: withDefault(codecs.number, 42), name: codecs.string },
+      { base: baseStorages.inMemoryScopedAsync() }
+    );
+
+    test('get returns the default value when key has one and value is not associated', async () => {
+      const c: number = await ts.get('count');
+      expect(c).toEqual(42);
+      expect(await ts.get('name')).toBeNull();
+    });
+    test('reset makes the value back to default', async () => {
+      await ts.set('count', 1);
+      expect(await ts.get('count')).toEqual(1);
+
+      await ts.reset('count');
+      expect(await ts.get('count')).toEqual(42);
+    });
+    test('getOrDefault returns the fallback when value is not associated', async () => {
+      expect(await ts.getOrDefault('name', 'anonymous')).toEqual('anonymous');
+    });
+  });
+
+  describe('quota', () => {
+    const spec = { a: codecs.string, b: codecs.string, c: codecs.string };
+
+    test('evicts values to fit in the budget', async () => {
+      const onEvict = jest.fn();
+      const ts = createAsyncTypedStorage(spec, {
+        base: baseStorages.inMemoryScopedAsync(),
+        now: tickingClock(),
+        quota: { budget: 40, onEvict },
+      });
+      await ts.set('a', 'xxxxx');
+      await ts.set('b', 'xxxxx');
+      await ts.set('c', 'xxxxx');
+      await ts.get('a');
+
+      await ts.set('c', 'xxxxxxxx');
+      expect(onEvict).toHaveBeenCalledWith('b');
+      expect((await ts.keys()).sort()).toEqual(['a', 'c']);
+      expect(await ts.usage()).toBeLessThanOrEqual(40);
+
+      await expect(ts.set('a', 'x'.repeat(20))).rejects.toThrow(QuotaExceededError);
+    });
+    test('evicts values and retries when the underlying storage runs out of space', async () => {
+      const limited = limitedStorage(30);
+      const base = {
+        get: async (k: string) => limited.get(k),
+        set: async (k: string, v: string) => limited.set(k, v),
+        remove: async (k: string) => limited.remove(k),
+      };
+      const ts = createAsyncTypedStorage(spec, { base, now: tickingClock(), quota: { policy: 'oldest' } });
+      await ts.set('a', 'xxxx');
+      await ts.set('b', 'xxxx');
+
+      await ts.set('c', 'xxxx');
+      expect(await ts.get('c')).toEqual('xxxx');
+      expect(await ts.get('a')).toBeNull();
+    });
+  });
+
+  describe('transaction', () => {
+    const spec = { theme: codecs.string, fontSize: codecs.number, layout: codecs.string };
+
+    test('applies all operations', async () => {
+      const ts = createAsyncTypedStorage(spec, { base: baseStorages.inMemoryScopedAsync() });
+      await ts.set('layout', 'grid');
+
+      await ts.transaction(tx => {
+        tx.set('theme', 'dark');
+        tx.set('fontSize', 16);
+        tx.remove('layout');
+      });
+      expect(await ts.getAll()).toEqual({ theme: 'dark', fontSize: 16 });
+    });
+    test('rolls back to previous values if the underlying storage fails partway', async () => {
+      const inner = baseStorages.inMemoryScopedAsync();
+      const base = {
+        get: (k: string) => inner.get(k),
+        set: async (k: string, v: string) => {
+          if (k === 'layout') {
+            throw Error('write failed');
+          }
+          await inner.set(k, v);
+        },
+        remove: (k: string) => inner.remove(k),
+      };
+      const ts = createAsyncTypedStorage(spec, { base });
+      await ts.set('theme', 'light');
+
+      await expect(
+        ts.transaction(tx => {
+          tx.remove('theme');
+          tx.set('fontSize', 16);
+          tx.set('layout', 'grid');
+        })
+      ).rejects.toThrow(StorageBackendError);
+      expect(await ts.get('theme')).toEqual('light');
+      expect(await ts.get('fontSize')).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,189 @@
+import { createElement } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+import { act } from 'react-dom/test-utils';
+import { BaseStorage, baseStorages } from '../src/BaseStorage';
+import { codecs } from '../src/Codec';
+import { useAsyncStorageValue, useStorageValue } from '../src/react';
+import { createAsyncTypedStorage, createTypedStorage, withDefault } from '../src/TypedStorage';
+
+declare global {
+  // eslint-disable-next-line no-var
+  var IS_REACT_ACT_ENVIRONMENT: boolean;
+}
+globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+
+let container: HTMLElement;
+let root: Root;
+
+beforeEach(() => {
+  container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+});
+
+// renders a component that calls the `hook`, and returns a function to get the latest result of it.
+const renderHook = <R>(hook: () => R): (() => R) => {
+  let result: R | undefined;
+  const Component = () => {
+    result = hook();
+    return null;
+  };
+  act(() => root.render(createElement(Component)));
+  return () => result as R;
+};
+
+describe('useStorageValue', () => {
+  const spec = {
+    theme: withDefault(codecs.literal('light', 'dark'), 'light'),
+    tags: codecs.arrayOf(codecs.string),
+  };
+
+  test('returns the value, and re-renders on updates', () => {
+    const storage = createTypedStorage(spec, { base: baseStorages.inMemoryScoped() });
+    const result = renderHook(() => useStorageValue(storage, 'theme'));
+    expect(result()[0]).toEqual('light');
+
+    act(() => result()[1]('dark'));
+    expect(result()[0]).toEqual('dark');
+    expect(storage.get('theme')).toEqual('dark');
+
+    act(() => result()[2]());
+    expect(result()[0]).toEqual('light');
+  });
+
+  test('all components sharing the key re-render on changes', () => {
+    const storage = createTypedStorage(spec, { base: baseStorages.inMemoryScoped() });
+    const results: string[][] = [];
+    const Tags = ({ id }: { id: number }) => {
+      const [tags] = useStorageValue(storage, 'tags');
+      results[id] = tags ?? [];
+      return null;
+    };
+    act(() => root.render([createElement(Tags, { id: 0, key: 0 }), createElement(Tags, { id: 1, key: 1 })]));
+    expect(results).toEqual([[], []]);
+
+    act(() => storage.set('tags', ['a', 'b']));
+    expect(results).toEqual([
+      ['a', 'b'],
+      ['a', 'b'],
+    ]);
+  });
+
+  test('returns the server value or the default value in server-side rendering without accessing the storage', () => {
+    // like `localStorage` on the server
+    const unavailable = (): never => {
+      throw new ReferenceError('localStorage is not defined');
+    };
+    const base: BaseStorage = { get: unavailable, set: unavailable, remove: unavailable };
+    const storage = createTypedStorage(spec, { base });
+    const Theme = ({ serverValue }: { serverValue?: 'light' | 'dark' }) => {
+      const [theme] = useStorageValue(storage, 'theme', { serverValue });
+      const [tags] = useStorageValue(storage, 'tags');
+      return createElement('p', null, `${theme}:${tags === null ? 'none' : tags.join(',')}`);
+    };
+
+    expect(renderToString(createElement(Theme))).toEqual('<p>light:none</p>');
+    expect(renderToString(createElement(Theme, { serverValue: 'dark' }))).toEqual('<p>dark:none</p>');
+  });
+
+  test('keeps the identity of the value across re-renders while it is not changed', () => {
+    const storage = createTypedStorage(spec, { base: baseStorages.inMemoryScoped() });
+    storage.set('tags', ['a']);
+    const values: (string[] | null)[] = [];
+    const Tags = (_: { rev: number }) => {
+      values.push(useStorageValue(storage, 'tags')[0]);
+      return null;
+    };
+    act(() => root.render(createElement(Tags, { rev: 1 })));
+    act(() => root.render(createElement(Tags, { rev: 2 })));
+
+    expect(values.length).toBeGreaterThanOrEqual(2);
+    expect(values[values.length - 1]).toBe(values[values.length - 2]);
+  });
+});
+
+describe('useAsyncStorageValue', () => {
+  const spec = { count: codecs.number };
+
+  test('exposes the loading state, then the value', async () => {
+    const storage = createAsyncTypedStorage(spec, { base: baseStorages.inMemoryScopedAsync() });
+    await storage.set('count', 1);
+
+    const result = renderHook(() => useAsyncStorageValue(storage, 'count'));
+    expect(result()[0]).toEqual({ status: 'loading' });
+
+    await act(async () => undefined);
+    expect(result()[0]).toEqual({ status: 'success', value: 1 });
+
+    await act(() => result()[1](2));
+    expect(result()[0]).toEqual({ status: 'success', value: 2 });
+
+    await act(() => result()[2]());
+    expect(result()[0]).toEqual({ status: 'success', value: null });
+  });
+
+  test('resets the state when the key changes', async () => {
+    const storage = createAsyncTypedStorage(
+      { count: codecs.number, other: codecs.number },
+      { base: baseStorages.inMemoryScopedAsync() }
+    );
+    await storage.set('count', 1);
+    await storage.set('other', 2);
+
+    const states: unknown[] = [];
+    const Count = ({ k }: { k: 'count' | 'other' }) => {
+      states.push(useAsyncStorageValue(storage, k)[0]);
+      return null;
+    };
+    act(() => root.render(createElement(Count, { k: 'count' })));
+    await act(async () => undefined);
+    expect(states[states.length - 1]).toEqual({ status: 'success', value: 1 });
+
+    const rendered = states.length;
+    act(() => root.render(createElement(Count, { k: 'other' })));
+    expect(states.slice(rendered)).not.toContainEqual({ status: 'success', value: 1 });
+    await act(async () => undefined);
+    expect(states[states.length - 1]).toEqual({ status: 'success', value: 2 });
+  });
+
+  test('resets the state when the storage changes', async () => {
+    const spec = { count: codecs.number };
+    const storage1 = createAsyncTypedStorage(spec, { base: baseStorages.inMemoryScopedAsync() });
+    const storage2 = createAsyncTypedStorage(spec, { base: baseStorages.inMemoryScopedAsync() });
+    await storage1.set('count', 1);
+    await storage2.set('count', 2);
+
+    const states: unknown[] = [];
+    const Count = ({ storage }: { storage: typeof storage1 }) => {
+      states.push(useAsyncStorageValue(storage, 'count')[0]);
+      return null;
+    };
+    act(() => root.render(createElement(Count, { storage: storage1 })));
+    await act(async () => undefined);
+    expect(states[states.length - 1]).toEqual({ status: 'success', value: 1 });
+
+    const rendered = states.length;
+    act(() => root.render(createElement(Count, { storage: storage2 })));
+    expect(states.slice(rendered)).not.toContainEqual({ status: 'success', value: 1 });
+    await act(async () => undefined);
+    expect(states[states.length - 1]).toEqual({ status: 'success', value: 2 });
+  });
+
+  test('exposes the error state if failed to retrieve the value', async () => {
+    const base = baseStorages.inMemoryScopedAsync();
+    await base.set('count', 'not a number');
+    const storage = createAsyncTypedStorage(spec, { base });
+
+    const result = renderHook(() => useAsyncStorageValue(storage, 'count'));
+    await act(async () => undefined);
+
+    const [state] = result();
+    expect(state.status).toEqual('error');
+  });
+});